@@ -0,0 +1,406 @@
+/**
+ * cwc - Cloudflare Workers Cleaner CLI
+ */
+import { Command, InvalidArgumentError } from 'commander';
+import { listCommand } from './commands/list.js';
+import { deleteCommand } from './commands/delete.js';
+import { versionsListCommand } from './commands/versions-list.js';
+import { versionsDeleteCommand } from './commands/versions-delete.js';
+import { versionsPlanCommand } from './commands/versions-plan.js';
+import { applyCommand } from './commands/apply.js';
+import { scanCommand } from './commands/scan.js';
+import { auditShowCommand } from './commands/audit-show.js';
+import { versionsExportCommand } from './commands/versions-export.js';
+import { retryFailedCommand } from './commands/resume.js';
+import { rollbackCommand } from './commands/rollback.js';
+import { deploymentsCreateCommand } from './commands/deployments-create.js';
+import { pagesListCommand } from './commands/pages-list.js';
+import { pagesDeleteCommand } from './commands/pages-delete.js';
+import { previewsVerifyCommand } from './commands/previews-verify.js';
+import { previewsStatusCommand } from './commands/previews-status.js';
+import {
+  previewsDisableCommand,
+  previewsEnableCommand,
+} from './commands/previews-toggle.js';
+import {
+  parseColumnList,
+  parseDateOrDuration,
+  parseDuration,
+  parseListFormat,
+  parseNonNegativeInteger,
+  parsePagesEnvironment,
+  parsePositiveInteger,
+  parseSortOrder,
+  parseTrafficEntry,
+} from './utils/options.js';
+import { setGlobalOptions } from './config/index.js';
+import { ExitCode } from './utils/exit-codes.js';
+import type { OutputFormat } from './commands/delete-report.js';
+
+const program = new Command();
+
+/**
+ * Parse the --output option of the delete commands
+ */
+function parseOutputFormat(value: string): OutputFormat {
+  if (value !== 'text' && value !== 'json' && value !== 'ndjson') {
+    throw new InvalidArgumentError('Must be one of: text, json, ndjson.');
+  }
+  return value;
+}
+
+/**
+ * Add the machine-readable output options shared by the delete commands
+ */
+function addOutputOptions(command: Command): Command {
+  return command
+    .option('--json', 'Print the result as JSON (same as --output json)')
+    .option(
+      '--output <format>',
+      'Output format: text, json or ndjson (one event per line)',
+      parseOutputFormat
+    );
+}
+
+/**
+ * Add the output format options shared by list and versions list
+ */
+function addListFormatOptions(command: Command): Command {
+  return command
+    .option(
+      '--format <format>',
+      'Output format: table, csv, markdown, json or ndjson',
+      parseListFormat
+    )
+    .option(
+      '--columns <list>',
+      'Comma-separated columns to show (e.g. id,number,author,traffic)',
+      parseColumnList
+    )
+    .option(
+      '--sort <column>',
+      'Sort by a column, optionally with :asc or :desc (e.g. created_on:desc)',
+      parseSortOrder
+    );
+}
+
+/**
+ * Add the tag, message and pin protection options
+ */
+function addProtectionOptions(command: Command): Command {
+  return command
+    .option('--protect-tag <glob...>', 'Never delete versions whose tag matches these globs (e.g. "release-*")')
+    .option('--protect-message <glob...>', 'Never delete versions whose message matches these globs')
+    .option('--pin <version-id...>', 'Never delete these versions');
+}
+
+/**
+ * Add the version selection options shared by versions delete and versions plan
+ */
+function addVersionSelectionOptions(command: Command): Command {
+  return addProtectionOptions(command)
+    .option('--all', 'Delete all non-active versions')
+    .option(
+      '--protect-recent <count>',
+      'Protect versions referenced by the N most recent deployments (default: 1, the active deployment)',
+      parsePositiveInteger
+    )
+    .option(
+      '--keep-last <count>',
+      'Keep the N most recent versions',
+      parsePositiveInteger
+    )
+    .option(
+      '--older-than <duration>',
+      'Only delete versions older than the duration (e.g. 30d, 12h)',
+      parseDuration
+    )
+    .option('--author <email>', 'Only delete versions uploaded by this author')
+    .option('--source <source>', 'Only delete versions from this source (e.g. wrangler, dash, api)')
+    .option('--tag-pattern <glob>', 'Only delete versions whose tag matches the glob (e.g. "pr-*")');
+}
+
+/**
+ * Add the options that apply a previews command to every script in the account
+ */
+function addPreviewScopeOptions(command: Command): Command {
+  return command
+    .option('--all-scripts', 'Apply to every Worker script in the account')
+    .option('--include <glob...>', 'With --all-scripts, only include scripts matching these globs')
+    .option('--exclude <glob...>', 'With --all-scripts, skip scripts matching these globs');
+}
+
+program
+  .name('cwc')
+  .description(
+    'Safely delete Cloudflare Workers preview deployments and versions.\n\n' +
+      'Useful for cleaning up preview deployments after security vulnerabilities ' +
+      'or when you need to remove old deployments and versions.'
+  )
+  .version('1.0.0')
+  .option('--profile <name>', 'Use a named profile from the config file')
+  .option('--account-id <id>', 'Cloudflare account ID (overrides profile and environment)')
+  .option('--token-file <path>', 'Read the API token from a file (overrides profile and environment)')
+  .option('--env <name>', 'Wrangler environment to use when the script name is read from wrangler config')
+  .option('--max-retries <count>', 'Retries for rate-limited, 5xx and network failures (default: 5)', parseNonNegativeInteger)
+  .option('--retry-base-delay <ms>', 'Base delay for exponential backoff in ms (default: 500)', parsePositiveInteger)
+  .option('--retry-max-delay <ms>', 'Maximum delay between retries in ms (default: 60000)', parsePositiveInteger)
+  .option('--concurrency <count>', 'Number of deletions in flight at once (default: 1)', parsePositiveInteger)
+  .option('--no-interactive', 'Never prompt; fail with the flags needed instead (default when stdin is not a TTY or CI is set)')
+  .hook('preAction', () => {
+    setGlobalOptions(program.opts());
+  })
+  // Usage errors exit with a dedicated code; help and version still exit 0
+  .exitOverride((error) => {
+    process.exit(error.exitCode === 0 ? ExitCode.Success : ExitCode.Usage);
+  });
+
+// List command (deployments)
+addListFormatOptions(
+  program
+    .command('list [script-name]')
+    .description('List all deployments for a Worker script')
+    .option('--json', 'Output as JSON')
+).action(listCommand);
+
+// Delete command (deployments)
+addOutputOptions(
+  program
+    .command('delete [script-name]')
+    .description('Select and delete preview deployments')
+    .option('--dry-run', 'Show what would be deleted without actually deleting')
+    .option('-y, --force', 'Skip confirmation prompt')
+    .option('--i-understand', 'With -y/--force, also skip the typed confirmation required for large or protected-script deletions')
+    .option('--all', 'Delete all non-active deployments')
+    .option(
+      '--keep-last <count>',
+      'Keep the N most recent deployments',
+      parsePositiveInteger
+    )
+    .option(
+      '--older-than <duration>',
+      'Only delete deployments older than the duration (e.g. 30d, 12h)',
+      parseDuration
+    )
+    .option('--author <email>', 'Only delete deployments by this author')
+    .option('--source <source>', 'Only delete deployments from this source (e.g. wrangler, dash, api)')
+    .option('--checkpoint <file>', 'Record progress to this file (default: last-run.json in the state directory)')
+    .option('--resume <file>', 'Resume an interrupted deletion from its checkpoint file')
+).action(deleteCommand);
+
+// Versions subcommand group
+const versions = program
+  .command('versions')
+  .description('Manage Worker versions (preview URLs are tied to versions)');
+
+// Versions list command
+addListFormatOptions(
+  addProtectionOptions(
+    versions
+      .command('list [script-name]')
+      .description('List all versions for a Worker script')
+      .option('--json', 'Output as JSON')
+      .option(
+        '--protect-recent <count>',
+        'Protect versions referenced by the N most recent deployments (default: 1, the active deployment)',
+        parsePositiveInteger
+      )
+  )
+).action(versionsListCommand);
+
+// Versions delete command
+addOutputOptions(
+  addVersionSelectionOptions(
+    versions
+      .command('delete [script-name]')
+      .description('Select and delete versions (removes preview URLs permanently)')
+      .option('--dry-run', 'Show what would be deleted without actually deleting')
+      .option('-y, --force', 'Skip confirmation prompt')
+      .option('--i-understand', 'With -y/--force, also skip the typed confirmation required for large or protected-script deletions')
+      .option('--all-scripts', 'Delete versions across every Worker script in the account')
+      .option('--include <glob...>', 'With --all-scripts, only include scripts matching these globs')
+      .option('--exclude <glob...>', 'With --all-scripts, skip scripts matching these globs')
+      .option('--backup-dir <dir>', 'Save each version\'s detail and content here before deleting it')
+      .option('--checkpoint <file>', 'Record progress to this file (default: last-run.json in the state directory)')
+      .option('--resume <file>', 'Resume an interrupted deletion from its checkpoint file')
+  )
+).action(versionsDeleteCommand);
+
+// Versions plan command
+addVersionSelectionOptions(
+  versions
+    .command('plan [script-name]')
+    .description('Write a deletion plan file for review instead of deleting')
+    .requiredOption('--out <file>', 'Path to write the plan JSON to')
+).action(versionsPlanCommand);
+
+// Versions export command
+versions
+  .command('export [script-name]')
+  .description('Save version detail, bindings and script content to disk without deleting')
+  .requiredOption('--out-dir <dir>', 'Directory to export versions to')
+  .option('--version-id <id...>', 'Only export these versions')
+  .action(versionsExportCommand);
+
+// Scan command
+addProtectionOptions(
+  program
+    .command('scan')
+    .description('Summarize deletable versions across every Worker script in the account')
+    .option('--json', 'Output as JSON')
+    .option('--include <glob...>', 'Only include scripts matching these globs')
+    .option('--exclude <glob...>', 'Skip scripts matching these globs')
+    .option(
+      '--protect-recent <count>',
+      'Protect versions referenced by the N most recent deployments (default: 1, the active deployment)',
+      parsePositiveInteger
+    )
+).action(scanCommand);
+
+// Deployments subcommand group
+const deployments = program
+  .command('deployments')
+  .description('Manage Worker deployments (traffic splits across versions)');
+
+// Deployments create command
+deployments
+  .command('create [script-name]')
+  .description('Create a deployment that splits traffic across versions')
+  // Not --version, which the root program reserves for printing the CLI version
+  .option(
+    '--split <id=percent>',
+    'Version and its share of traffic; repeat for each version (e.g. --split abc123=90 --split def456=10)',
+    parseTrafficEntry
+  )
+  .option('-m, --message <text>', 'Message to annotate the new deployment with')
+  .option('--checkpoint <file>', 'Checkpoint to check for pending deletions (default: last-run.json in the state directory)')
+  .option('--dry-run', 'Validate the split and show it without deploying')
+  .option('-y, --force', 'Skip confirmation prompt')
+  .action(deploymentsCreateCommand);
+
+// Pages subcommand group
+const pages = program
+  .command('pages')
+  .description('Manage Cloudflare Pages deployments (each has its own preview URL)');
+
+// Pages list command
+pages
+  .command('list <project>')
+  .description('List the deployments of a Pages project')
+  .option('--branch <glob>', 'Only show deployments of branches matching the glob (e.g. "feature/*")')
+  // Not --env, which the root program reserves for the wrangler environment
+  .option('--environment <name>', 'Only show preview or production deployments', parsePagesEnvironment)
+  .option('--json', 'Output as JSON')
+  .action(pagesListCommand);
+
+// Pages delete command
+addOutputOptions(
+  pages
+    .command('delete [project]')
+    .description('Select and delete Pages deployments (production and the latest of each branch are kept)')
+    .option('--dry-run', 'Show what would be deleted without actually deleting')
+    .option('-y, --force', 'Skip confirmation prompt')
+    .option('--i-understand', 'With -y/--force, also skip the typed confirmation required for large or protected-project deletions')
+    .option('--all', 'Delete all unprotected deployments that match the filters')
+    .option('--branch <glob>', 'Only delete deployments of branches matching the glob (e.g. "feature/*")')
+    // Not --env, which the root program reserves for the wrangler environment
+    .option('--environment <name>', 'Only delete preview or production deployments', parsePagesEnvironment)
+    .option('--checkpoint <file>', 'Record progress to this file (default: last-run.json in the state directory)')
+    .option('--resume <file>', 'Resume an interrupted deletion from its checkpoint file')
+).action(pagesDeleteCommand);
+
+// Previews subcommand group
+const previews = program
+  .command('previews')
+  .description('Inspect the workers.dev preview URLs of Worker versions');
+
+// Previews verify command
+previews
+  .command('verify [script-name]')
+  .description('Check that the preview URLs of deleted versions no longer respond')
+  .option('--version-id <id...>', 'Also check these versions (at least the first 8 characters of the ID)')
+  .option('--since <date>', 'Only check versions deleted since a date or duration ago (e.g. 2024-12-01, 1d)', parseDateOrDuration)
+  .option('--timeout <ms>', 'Give up on a URL after this many ms (default: 10000)', parsePositiveInteger)
+  .option('--probe-origin <url>', 'Send probes to this origin, keeping the preview hostname in the Host header')
+  .option('--json', 'Output as JSON')
+  .action(previewsVerifyCommand);
+
+// Previews status command
+addPreviewScopeOptions(
+  previews
+    .command('status [script-name]')
+    .description('Show whether scripts create preview URLs and are served on workers.dev')
+    .option('--json', 'Output as JSON')
+).action(previewsStatusCommand);
+
+// Previews disable command
+addPreviewScopeOptions(
+  previews
+    .command('disable [script-name]')
+    .description('Stop new preview URLs from being created and take existing ones offline')
+    .option('--workers-dev', 'Also turn off the <script>.<subdomain>.workers.dev route')
+    .option('--dry-run', 'Show what would change without changing it')
+    .option('-y, --force', 'Skip confirmation prompt')
+    .option('--json', 'Output as JSON')
+).action(previewsDisableCommand);
+
+// Previews enable command
+addPreviewScopeOptions(
+  previews
+    .command('enable [script-name]')
+    .description('Let scripts create preview URLs again')
+    .option('--workers-dev', 'Also turn on the <script>.<subdomain>.workers.dev route')
+    .option('--dry-run', 'Show what would change without changing it')
+    .option('-y, --force', 'Skip confirmation prompt')
+    .option('--json', 'Output as JSON')
+).action(previewsEnableCommand);
+
+// Rollback command
+program
+  .command('rollback [script-name] [version-id]')
+  .description('Route all traffic back to an existing version by creating a new deployment')
+  .option('-m, --message <text>', 'Message to annotate the new deployment with')
+  .option('--dry-run', 'Show the version that would be deployed without deploying')
+  .option('-y, --force', 'Skip confirmation prompt')
+  .action(rollbackCommand);
+
+// Apply command
+program
+  .command('apply <plan-file>')
+  .description('Execute a deletion plan created by "versions plan"')
+  .option('--dry-run', 'Verify the plan and show what would be deleted')
+  .option('-y, --force', 'Skip confirmation prompt')
+  .option('--i-understand', 'With -y/--force, also skip the typed confirmation required for large or protected-script deletions')
+  .option('--backup-dir <dir>', 'Save each version\'s detail and content here before deleting it')
+  .option('--checkpoint <file>', 'Record progress to this file (default: last-run.json in the state directory)')
+  .action(applyCommand);
+
+// Retry failed command
+addOutputOptions(
+  program
+    .command('retry-failed')
+    .description('Retry the deletions that failed in the last run')
+    .option('--checkpoint <file>', 'Checkpoint file to read (default: last-run.json in the state directory)')
+    .option('--dry-run', 'Show what would be retried without deleting')
+    .option('-y, --force', 'Skip confirmation prompt')
+    .option('--i-understand', 'With -y/--force, also skip the typed confirmation required for large or protected-script deletions')
+    .option('--backup-dir <dir>', 'Save each version\'s detail and content here before deleting it')
+).action(retryFailedCommand);
+
+// Audit subcommand group
+const audit = program
+  .command('audit')
+  .description('Inspect the local audit log of deletions');
+
+// Audit show command
+audit
+  .command('show')
+  .description('Show audit log entries')
+  .option('--script <name>', 'Only show entries for this script')
+  .option('--since <date>', 'Only show entries since a date or duration ago (e.g. 2024-12-01, 7d)', parseDateOrDuration)
+  .option('--until <date>', 'Only show entries until a date or duration ago', parseDateOrDuration)
+  .option('--json', 'Output as JSON')
+  .action(auditShowCommand);
+
+// Parse arguments
+program.parse();
@@ -0,0 +1,187 @@
+/**
+ * Apply command - execute a reviewed deletion plan
+ */
+import chalk from 'chalk';
+import { CloudflareAPI, CloudflareAPIError } from '../lib/cloudflare-api.js';
+import {
+  getClientConfig,
+  getProtectionRules,
+  getSafetyRules,
+} from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { startSpinner } from '../utils/spinner.js';
+import { ExitCode, exitCodeForError } from '../utils/exit-codes.js';
+import { versionAuditRecorder } from '../lib/audit.js';
+import {
+  confirmTypedDeletion,
+  confirmVersionDeletion,
+} from '../utils/prompts.js';
+import { safetyGuardFor } from '../lib/safety.js';
+import { loadVersionInventory } from '../lib/inventory.js';
+import { backupOptions } from './version-backup.js';
+import { executeVersionCleanup } from '../lib/cleanup.js';
+import { readPlan, verifyPlan } from '../lib/plan.js';
+import { createCheckpoint } from '../lib/checkpoint.js';
+import {
+  finishAudit,
+  finishCheckpoint,
+  retryFailedHint,
+  startCheckpoint,
+} from './checkpoint.js';
+
+export interface ApplyOptions {
+  dryRun?: boolean;
+  force?: boolean;
+  /** Lets --force skip typed confirmation */
+  iUnderstand?: boolean;
+  backupDir?: string;
+  checkpoint?: string;
+}
+
+export async function applyCommand(
+  planFile: string,
+  options: ApplyOptions
+): Promise<void> {
+  const spinner = startSpinner('Reading plan...');
+
+  try {
+    const plan = await readPlan(planFile);
+    const { scriptName } = plan;
+
+    const clientConfig = getClientConfig();
+    const api = new CloudflareAPI(clientConfig);
+    // Rules added to the config since the plan was made still apply
+    const rules = getProtectionRules({}, plan.protection);
+
+    const inventory = await loadVersionInventory(api, scriptName, {
+      recentDeployments: plan.protectRecent,
+      rules,
+      onProgress: (stage) => {
+        spinner.text = `Fetching ${stage}...`;
+      },
+    });
+    spinner.stop();
+
+    // Refuse to run a plan made against a different state
+    verifyPlan(plan, clientConfig.accountId, inventory);
+
+    const targetIds = new Set(plan.targets);
+    const toDelete = inventory.versions.filter((v) => targetIds.has(v.id));
+
+    if (toDelete.length === 0) {
+      logger.info(`Plan for "${scriptName}" contains no versions. Nothing to do.`);
+      process.exit(ExitCode.NothingToDo);
+    }
+
+    logger.info(
+      `Plan for "${scriptName}" (created ${logger.formatDate(plan.createdAt)}) matches the live state.`
+    );
+    logger.warn(
+      chalk.yellow('Deleting versions will permanently remove their preview URLs!')
+    );
+    logger.printVersions(toDelete);
+
+    // Dry run mode
+    if (options.dryRun) {
+      logger.dryRun(
+        `Total: ${toDelete.length} version(s). No actual deletion performed.`
+      );
+      return;
+    }
+
+    // Large or protected-script deletions must be typed out
+    const guard = safetyGuardFor(
+      [scriptName],
+      toDelete.length,
+      getSafetyRules()
+    );
+    const shouldProceed = guard
+      ? await confirmTypedDeletion(guard, options)
+      : await confirmVersionDeletion(toDelete.length, {
+          force: options.force,
+        });
+
+    if (!shouldProceed) {
+      logger.info('Deletion cancelled.');
+      return;
+    }
+
+    // Record progress so an interrupted run can be resumed
+    const recorder = await startCheckpoint(
+      options.checkpoint,
+      createCheckpoint(
+        clientConfig.accountId,
+        'version',
+        toDelete.map((v) => ({ scriptName, id: v.id })),
+        {
+          protectRecent: plan.protectRecent,
+          protection: rules,
+          backupDir: options.backupDir,
+        }
+      )
+    );
+
+    // Back up, delete and record each outcome as it completes
+    logger.newline();
+    spinner.start('Deleting versions...');
+    const audit = versionAuditRecorder({ accountId: clientConfig.accountId });
+    const result = await executeVersionCleanup(
+      api,
+      { scriptName, toDelete },
+      {
+        ...backupOptions(scriptName, options.backupDir, spinner),
+        checkpoint: recorder,
+        audit,
+        onProgress: (completed, total, id) => {
+          spinner.text = `Deleting versions... (${completed}/${total}) - ${id.slice(0, 8)}...`;
+        },
+      }
+    );
+
+    spinner.stop();
+    await finishCheckpoint(recorder);
+    await finishAudit(audit);
+
+    // Report results
+    if (result.deleted.length > 0) {
+      logger.success(
+        `Successfully deleted ${result.deleted.length} version(s) and their preview URLs.`
+      );
+    }
+
+    if (result.failed.length > 0) {
+      logger.error(`Failed to delete ${result.failed.length} version(s):`);
+      result.failed.forEach(({ item, error }) => {
+        logger.error(`- ${item.id.slice(0, 8)}...: ${error}`);
+      });
+    }
+
+    // Summary
+    logger.newline();
+    if (result.failed.length === 0) {
+      logger.success(chalk.green('The plan has been applied.'));
+    } else {
+      logger.warn(
+        `Completed with ${result.failed.length} error(s). Run "${retryFailedHint(recorder)}" to retry them.`
+      );
+      process.exit(ExitCode.PartialFailure);
+    }
+  } catch (error) {
+    spinner.stop();
+
+    if (error instanceof CloudflareAPIError) {
+      logger.error(error.message);
+      if (error.statusCode === 403) {
+        logger.info(
+          'Make sure your API token has "Workers Scripts: Read" and "Workers Scripts: Edit" permissions.'
+        );
+      }
+    } else if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unknown error occurred.');
+    }
+
+    process.exit(exitCodeForError(error));
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Audit Show command - query the local audit log of deletions
+ */
+import chalk from 'chalk';
+import { logger } from '../utils/logger.js';
+import { exitCodeForError } from '../utils/exit-codes.js';
+import { getAuditLogPath, readAuditLog } from '../lib/audit.js';
+
+export interface AuditShowOptions {
+  script?: string;
+  since?: Date;
+  until?: Date;
+  json?: boolean;
+}
+
+export async function auditShowCommand(options: AuditShowOptions): Promise<void> {
+  try {
+    const path = getAuditLogPath();
+    const entries = await readAuditLog(
+      {
+        scriptName: options.script,
+        since: options.since,
+        until: options.until,
+      },
+      path
+    );
+
+    // JSON output mode
+    if (options.json) {
+      console.log(JSON.stringify(entries, null, 2));
+      return;
+    }
+
+    if (entries.length === 0) {
+      logger.warn(`No audit entries found in ${path}.`);
+      return;
+    }
+
+    // Human-readable output
+    console.log(chalk.bold(`\nAudit log (${entries.length} entries):`));
+
+    logger.printTable(
+      ['Time', 'Script', 'Type', 'ID', '#', 'Outcome', 'Operator'],
+      entries.map((e) => [
+        logger.formatDate(e.timestamp),
+        e.scriptName,
+        e.resourceType,
+        e.id,
+        e.versionNumber !== undefined ? String(e.versionNumber) : '-',
+        e.outcome === 'success' ? 'deleted' : `failed: ${e.error ?? 'unknown'}`,
+        e.operator,
+      ])
+    );
+
+    const failedCount = entries.filter((e) => e.outcome === 'failed').length;
+    logger.info(
+      `${entries.length - failedCount} deleted, ${failedCount} failed. Log file: ${path}`
+    );
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unknown error occurred.');
+    }
+
+    process.exit(exitCodeForError(error));
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Shared checkpoint and audit log handling for the commands that delete in bulk
+ */
+import chalk from 'chalk';
+import { logger } from '../utils/logger.js';
+import type { AuditRecorder } from '../lib/audit.js';
+import {
+  CheckpointRecorder,
+  getLastRunPath,
+  type Checkpoint,
+} from '../lib/checkpoint.js';
+
+/**
+ * Save the initial checkpoint and return a recorder for progress
+ * A checkpoint that cannot be written is reported but does not stop deletion.
+ */
+export async function startCheckpoint(
+  path: string | undefined,
+  checkpoint: Checkpoint
+): Promise<CheckpointRecorder> {
+  const recorder = new CheckpointRecorder(path ?? getLastRunPath(), checkpoint);
+  await recorder.save();
+  return recorder;
+}
+
+/**
+ * Wait for the last checkpoint save and report write failures
+ */
+export async function finishCheckpoint(
+  recorder: CheckpointRecorder
+): Promise<void> {
+  const error = await recorder.close();
+  if (error) {
+    logger.warn(`Failed to write checkpoint ${recorder.path}: ${error.message}`);
+  }
+}
+
+/**
+ * Wait for the last audit log write and report write failures
+ */
+export async function finishAudit<T>(audit: AuditRecorder<T>): Promise<void> {
+  const error = await audit.close();
+  if (error) {
+    logger.warn(`Failed to write audit log: ${error.message}`);
+  }
+}
+
+/**
+ * Command that retries the failed deletions recorded in a checkpoint
+ */
+export function retryFailedHint(recorder: CheckpointRecorder): string {
+  const command =
+    recorder.path === getLastRunPath()
+      ? 'cwc retry-failed'
+      : `cwc retry-failed --checkpoint ${recorder.path}`;
+  return chalk.cyan(command);
+}
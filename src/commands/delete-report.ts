@@ -0,0 +1,203 @@
+/**
+ * Machine-readable results for the delete commands (--json / --output ndjson)
+ */
+import { logger } from '../utils/logger.js';
+import { ExitCode, exitCodeForError } from '../utils/exit-codes.js';
+import {
+  CloudflareAPIError,
+  type BulkFailure,
+  type Version,
+} from '../lib/cloudflare-api.js';
+
+export type OutputFormat = 'text' | 'json' | 'ndjson';
+
+export interface OutputOptions {
+  json?: boolean;
+  output?: OutputFormat;
+}
+
+export interface ReportItem {
+  /** Worker script, or Pages project for Pages deployments */
+  scriptName: string;
+  id: string;
+  versionNumber?: number;
+}
+
+export interface DeleteReport {
+  resourceType: 'version' | 'deployment' | 'pages_deployment';
+  dryRun: boolean;
+  selected: ReportItem[];
+  protected: Array<ReportItem & { reason: string }>;
+  deleted: ReportItem[];
+  failed: Array<ReportItem & Omit<BulkFailure, 'id'>>;
+  /** Scripts whose versions could not be loaded, so nothing in them was considered */
+  scanFailed: Array<{ scriptName: string; error: string }>;
+  error?: { message: string; status?: number };
+  exitCode: ExitCode;
+}
+
+/**
+ * Report item for a version
+ */
+export function versionReportItem(
+  scriptName: string,
+  version: Version
+): ReportItem {
+  return { scriptName, id: version.id, versionNumber: version.number };
+}
+
+/**
+ * Resolve the output format; --output takes precedence over --json
+ */
+export function outputFormatFrom(options: OutputOptions): OutputFormat {
+  return options.output ?? (options.json ? 'json' : 'text');
+}
+
+/**
+ * Collects what a delete command selected, skipped and deleted
+ * In json mode the full report is printed when the command finishes; in
+ * ndjson mode every event is printed as it happens, followed by a summary.
+ * Either way human-readable output moves to stderr.
+ */
+export class DeleteReporter {
+  private report: DeleteReport;
+
+  constructor(
+    public readonly format: OutputFormat,
+    resourceType: DeleteReport['resourceType'],
+    dryRun = false
+  ) {
+    this.report = {
+      resourceType,
+      dryRun,
+      selected: [],
+      protected: [],
+      deleted: [],
+      failed: [],
+      scanFailed: [],
+      exitCode: ExitCode.Success,
+    };
+    if (this.machine) {
+      logger.redirectToStderr();
+    }
+  }
+
+  /**
+   * True when stdout carries JSON instead of text
+   */
+  get machine(): boolean {
+    return this.format !== 'text';
+  }
+
+  /**
+   * Record an item skipped because it is protected
+   */
+  skipped(item: ReportItem, reason: string): void {
+    this.report.protected.push({ ...item, reason });
+    this.emit('protected', { ...item, reason });
+  }
+
+  /**
+   * Record the items selected for deletion
+   */
+  selected(items: ReportItem[]): void {
+    this.report.selected.push(...items);
+    items.forEach((item) => this.emit('selected', item));
+  }
+
+  /**
+   * Record the outcome of one deletion
+   */
+  outcome(item: ReportItem, failure?: BulkFailure): void {
+    if (failure) {
+      const { error, status, code } = failure;
+      this.report.failed.push({ ...item, error, status, code });
+      this.emit('failed', { ...item, error, status, code });
+    } else {
+      this.report.deleted.push(item);
+      this.emit('deleted', item);
+    }
+  }
+
+  /**
+   * Record a script that could not be scanned
+   */
+  scanFailure(scriptName: string, error: string): void {
+    this.report.scanFailed.push({ scriptName, error });
+    this.emit('scan_failed', { scriptName, error });
+  }
+
+  /**
+   * Print the report (or summary event) and return the exit code
+   */
+  finish(exitCode: ExitCode, error?: unknown): ExitCode {
+    this.report.exitCode = exitCode;
+    if (error !== undefined) {
+      this.report.error = {
+        message: error instanceof Error ? error.message : 'Unknown error',
+        status:
+          error instanceof CloudflareAPIError ? error.statusCode : undefined,
+      };
+    }
+
+    if (this.format === 'json') {
+      console.log(JSON.stringify(this.report, null, 2));
+    } else if (this.format === 'ndjson') {
+      const { resourceType, dryRun, error: failure } = this.report;
+      this.emit('summary', {
+        resourceType,
+        dryRun,
+        selected: this.report.selected.length,
+        protected: this.report.protected.length,
+        deleted: this.report.deleted.length,
+        failed: this.report.failed.length,
+        scanFailed: this.report.scanFailed.length,
+        error: failure,
+        exitCode,
+      });
+    }
+    return exitCode;
+  }
+
+  /**
+   * Report an error thrown by the command and return its exit code
+   */
+  fail(error: unknown): ExitCode {
+    return this.finish(exitCodeForError(error), error);
+  }
+
+  private emit(event: string, data: object): void {
+    if (this.format === 'ndjson') {
+      console.log(JSON.stringify({ event, ...data }));
+    }
+  }
+}
+
+/**
+ * Check that a machine-readable run will not need to prompt
+ * Returns an error message, or undefined when the options are usable.
+ */
+export function machineOutputProblem(
+  reporter: DeleteReporter,
+  options: {
+    dryRun?: boolean;
+    force?: boolean;
+    interactiveSelection: boolean;
+    /** How to select without prompting, when not --all or a retention policy */
+    selectionFlags?: string;
+  }
+): string | undefined {
+  if (!reporter.machine) {
+    return undefined;
+  }
+  if (options.interactiveSelection) {
+    return `--output ${reporter.format} cannot select interactively. ${
+      options.selectionFlags ??
+      'Use --all or a retention policy option (e.g. --keep-last, --older-than).'
+    }`;
+  }
+  if (!options.dryRun && !options.force) {
+    return `--output ${reporter.format} cannot prompt for confirmation. Use -y/--force or --dry-run.`;
+  }
+  return undefined;
+}
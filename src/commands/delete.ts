@@ -1,64 +1,151 @@
 /**
  * Delete command - remove preview deployments
  */
-import ora from 'ora';
 import chalk from 'chalk';
 import { CloudflareAPI, CloudflareAPIError } from '../lib/cloudflare-api.js';
-import { getEnv } from '../config/index.js';
+import {
+  getClientConfig,
+  getSafetyRules,
+  resolveScriptName,
+} from '../config/index.js';
 import { logger } from '../utils/logger.js';
+import { startSpinner } from '../utils/spinner.js';
+import { deploymentAuditRecorder } from '../lib/audit.js';
 import {
   selectDeploymentsToDelete,
   confirmDeletion,
   confirmDeleteAll,
+  confirmTypedDeletion,
 } from '../utils/prompts.js';
+import { safetyGuardFor } from '../lib/safety.js';
+import {
+  hasSelectionCriteria,
+  type SelectionCriteria,
+} from '../lib/selection.js';
+import {
+  executeDeploymentCleanup,
+  selectCleanupDeployments,
+} from '../lib/cleanup.js';
 import type { Deployment } from '../lib/cloudflare-api.js';
+import { createCheckpoint } from '../lib/checkpoint.js';
+import {
+  finishAudit,
+  finishCheckpoint,
+  retryFailedHint,
+  startCheckpoint,
+} from './checkpoint.js';
+import { resumeCommand } from './resume.js';
+import { ExitCode } from '../utils/exit-codes.js';
+import {
+  DeleteReporter,
+  machineOutputProblem,
+  outputFormatFrom,
+  type OutputOptions,
+} from './delete-report.js';
 
-export interface DeleteOptions {
+export interface DeleteOptions extends OutputOptions {
   dryRun?: boolean;
   force?: boolean;
+  /** Lets --force skip typed confirmation */
+  iUnderstand?: boolean;
   all?: boolean;
+  keepLast?: number;
+  olderThan?: number;
+  author?: string;
+  source?: string;
+  checkpoint?: string;
+  resume?: string;
 }
 
 export async function deleteCommand(
-  scriptName: string,
+  scriptNameArg: string | undefined,
   options: DeleteOptions
 ): Promise<void> {
-  const spinner = ora('Fetching deployments...').start();
+  if (options.resume) {
+    return resumeCommand(options.resume, {
+      resourceType: 'deployment',
+      dryRun: options.dryRun,
+      force: options.force,
+      iUnderstand: options.iUnderstand,
+      json: options.json,
+      output: options.output,
+    });
+  }
+
+  const criteria: SelectionCriteria = {
+    keepLast: options.keepLast,
+    olderThan: options.olderThan,
+    author: options.author,
+    source: options.source,
+  };
+  const byPolicy = hasSelectionCriteria(criteria);
+
+  const reporter = new DeleteReporter(
+    outputFormatFrom(options),
+    'deployment',
+    options.dryRun
+  );
+  const problem = machineOutputProblem(reporter, {
+    dryRun: options.dryRun,
+    force: options.force,
+    interactiveSelection: !options.all && !byPolicy,
+  });
+  if (problem) {
+    logger.error(problem);
+    process.exit(ExitCode.Usage);
+  }
+
+  const spinner = startSpinner('Fetching deployments...');
 
   try {
-    const env = getEnv();
-    const api = new CloudflareAPI({
-      accountId: env.CLOUDFLARE_ACCOUNT_ID,
-      apiToken: env.CLOUDFLARE_API_TOKEN,
-    });
+    const scriptName = resolveScriptName(scriptNameArg);
+    const clientConfig = getClientConfig();
+    const api = new CloudflareAPI(clientConfig);
 
-    const deployments = await api.listDeployments(scriptName);
+    const {
+      items: deployments,
+      totalCount,
+      truncated,
+    } = await api.listDeployments(scriptName);
     spinner.stop();
 
     if (deployments.length === 0) {
       logger.warn(`No deployments found for script "${scriptName}".`);
-      return;
+      process.exit(reporter.finish(ExitCode.NothingToDo));
+    }
+
+    reporter.skipped({ scriptName, id: deployments[0].id }, 'active deployment');
+
+    if (truncated) {
+      logger.warn(
+        `Only the first ${deployments.length} of ${totalCount} deployment(s) were loaded (item limit reached).`
+      );
     }
 
     if (deployments.length === 1) {
       logger.warn(
         'Only the active deployment exists. Cannot delete the active deployment.'
       );
-      return;
+      process.exit(reporter.finish(ExitCode.NothingToDo));
     }
 
     // Exclude the first (active) deployment
     const deletableDeployments = deployments.slice(1);
 
     logger.info(
-      `Found ${deployments.length} deployment(s), ${deletableDeployments.length} can be deleted.`
+      `Found ${totalCount} deployment(s), ${deletableDeployments.length} can be deleted.`
     );
     logger.newline();
 
     // Determine which deployments to delete
     let toDelete: Deployment[];
-    if (options.all) {
-      toDelete = deletableDeployments;
+    if (byPolicy) {
+      toDelete = selectCleanupDeployments(deployments, criteria);
+      logger.info(
+        `Selected ${toDelete.length} deletable deployment(s) matching the retention policy.`
+      );
+    } else if (options.all) {
+      toDelete = selectCleanupDeployments(deployments, { all: true });
       logger.info(`Selected all ${toDelete.length} deletable deployment(s).`);
     } else {
       toDelete = await selectDeploymentsToDelete(deployments);
@@ -66,59 +153,85 @@ export async function deleteCommand(
 
     if (toDelete.length === 0) {
       logger.info('No deployments selected. Exiting.');
-      return;
+      process.exit(reporter.finish(ExitCode.NothingToDo));
     }
 
+    reporter.selected(toDelete.map((d) => ({ scriptName, id: d.id })));
+
     // Dry run mode
     if (options.dryRun) {
       logger.dryRun('The following deployments would be deleted:');
-      logger.newline();
-      toDelete.forEach((d) => {
-        const date = new Date(d.created_on).toLocaleString();
-        console.log(`  - ${d.id.slice(0, 8)}... (${date}) by ${d.author_email}`);
-      });
-      logger.newline();
+      logger.printDeployments(toDelete);
       logger.dryRun(
         `Total: ${toDelete.length} deployment(s). No actual deletion performed.`
       );
+      reporter.finish(ExitCode.Success);
       return;
     }
 
-    // Confirm deletion
-    const shouldProceed = options.all
-      ? await confirmDeleteAll(toDelete.length, { force: options.force })
-      : await confirmDeletion(toDelete.length, { force: options.force });
+    // Confirm deletion; large or protected-script deletions must be typed out
+    const guard = safetyGuardFor(
+      [scriptName],
+      toDelete.length,
+      getSafetyRules()
+    );
+    const shouldProceed = guard
+      ? await confirmTypedDeletion(guard, options)
+      : options.all && !byPolicy
+        ? await confirmDeleteAll(toDelete.length, { force: options.force })
+        : await confirmDeletion(toDelete.length, { force: options.force });
 
     if (!shouldProceed) {
       logger.info('Deletion cancelled.');
       return;
     }
 
+    // Record progress so an interrupted run can be resumed
+    const recorder = await startCheckpoint(
+      options.checkpoint,
+      createCheckpoint(
+        clientConfig.accountId,
+        'deployment',
+        toDelete.map((d) => ({ scriptName, id: d.id }))
+      )
+    );
+
     // Execute deletion
     logger.newline();
-    const deleteSpinner = ora('Deleting deployments...').start();
+    spinner.start('Deleting deployments...');
 
-    const result = await api.deleteDeployments(
-      scriptName,
-      toDelete.map((d) => d.id),
-      (completed, total, id) => {
-        deleteSpinner.text = `Deleting deployments... (${completed}/${total}) - ${id.slice(0, 8)}...`;
+    const audit = deploymentAuditRecorder({
+      accountId: clientConfig.accountId,
+    });
+    const result = await executeDeploymentCleanup(
+      api,
+      { scriptName, toDelete },
+      {
+        checkpoint: recorder,
+        audit,
+        onOutcome: (deployment, failure) =>
+          reporter.outcome({ scriptName, id: deployment.id }, failure),
+        onProgress: (completed, total, id) => {
+          spinner.text = `Deleting deployments... (${completed}/${total}) - ${id.slice(0, 8)}...`;
+        },
       }
     );
 
-    deleteSpinner.stop();
+    spinner.stop();
+    await finishCheckpoint(recorder);
+    await finishAudit(audit);
 
     // Report results
-    if (result.success.length > 0) {
+    if (result.deleted.length > 0) {
       logger.success(
-        `Successfully deleted ${result.success.length} deployment(s).`
+        `Successfully deleted ${result.deleted.length} deployment(s).`
       );
     }
 
     if (result.failed.length > 0) {
       logger.error(`Failed to delete ${result.failed.length} deployment(s):`);
-      result.failed.forEach(({ id, error }) => {
-        console.log(chalk.red(`  - ${id.slice(0, 8)}...: ${error}`));
+      result.failed.forEach(({ item, error }) => {
+        logger.error(`- ${item.id.slice(0, 8)}...: ${error}`);
       });
     }
 
@@ -126,11 +239,12 @@ export async function deleteCommand(
     logger.newline();
     if (result.failed.length === 0) {
       logger.success(chalk.green('All selected deployments have been deleted.'));
+      reporter.finish(ExitCode.Success);
     } else {
       logger.warn(
-        `Completed with ${result.failed.length} error(s). Please retry failed deletions.`
+        `Completed with ${result.failed.length} error(s). Run "${retryFailedHint(recorder)}" to retry them.`
       );
-      process.exit(1);
+      process.exit(reporter.finish(ExitCode.PartialFailure));
     }
   } catch (error) {
     spinner.stop();
@@ -148,6 +262,6 @@ export async function deleteCommand(
       logger.error('An unknown error occurred.');
     }
 
-    process.exit(1);
+    process.exit(reporter.fail(error));
   }
 }
@@ -0,0 +1,190 @@
+/**
+ * Deployments Create command - split traffic across versions (gradual deployments)
+ */
+import { existsSync } from 'node:fs';
+import chalk from 'chalk';
+import { CloudflareAPI, CloudflareAPIError } from '../lib/cloudflare-api.js';
+import { getClientConfig, resolveScriptName } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { startSpinner } from '../utils/spinner.js';
+import { ExitCode, exitCodeForError } from '../utils/exit-codes.js';
+import { loadVersionInventory } from '../lib/inventory.js';
+import {
+  formatTrafficSplit,
+  resolveTrafficSplit,
+  type TrafficEntry,
+} from '../lib/traffic.js';
+import {
+  getLastRunPath,
+  readCheckpoint,
+  remainingItems,
+} from '../lib/checkpoint.js';
+import {
+  confirmDeploymentCreation,
+  selectTrafficSplit,
+} from '../utils/prompts.js';
+import type { DeploymentVersion, Version } from '../lib/cloudflare-api.js';
+
+export interface DeploymentsCreateOptions {
+  split?: TrafficEntry[];
+  message?: string;
+  checkpoint?: string;
+  dryRun?: boolean;
+  force?: boolean;
+}
+
+/**
+ * Warn about chosen versions that an unfinished deletion run still intends to delete
+ * An unreadable checkpoint is not worth failing the deployment over.
+ */
+async function warnScheduledForDeletion(
+  path: string,
+  accountId: string,
+  scriptName: string,
+  split: DeploymentVersion[],
+  versions: Version[]
+): Promise<void> {
+  if (!existsSync(path)) {
+    return;
+  }
+
+  try {
+    const checkpoint = await readCheckpoint(path);
+    if (
+      checkpoint.accountId !== accountId ||
+      checkpoint.resourceType !== 'version'
+    ) {
+      return;
+    }
+
+    const scheduled = new Set(
+      remainingItems(checkpoint)
+        .filter((item) => item.scriptName === scriptName)
+        .map((item) => item.id)
+    );
+    for (const { version_id } of split) {
+      if (scheduled.has(version_id)) {
+        const number = versions.find((v) => v.id === version_id)?.number;
+        logger.warn(
+          `Version #${number} (${version_id.slice(0, 8)}...) is scheduled for deletion by an unfinished run (${path}). Resuming that run skips it only while it is still deployed.`
+        );
+      }
+    }
+  } catch (error) {
+    logger.debug(
+      `Could not read checkpoint ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+export async function deploymentsCreateCommand(
+  scriptNameArg: string | undefined,
+  options: DeploymentsCreateOptions
+): Promise<void> {
+  const spinner = startSpinner('Fetching deployments...');
+
+  try {
+    const scriptName = resolveScriptName(scriptNameArg);
+    const clientConfig = getClientConfig();
+    const api = new CloudflareAPI(clientConfig);
+
+    const { versions, deployments } = await loadVersionInventory(
+      api,
+      scriptName,
+      {
+        onProgress: (stage) => {
+          spinner.text = `Fetching ${stage}...`;
+        },
+      }
+    );
+    spinner.stop();
+
+    if (versions.length === 0) {
+      logger.warn(`No versions found for script "${scriptName}".`);
+      process.exit(ExitCode.NothingToDo);
+    }
+
+    // Traffic split of the active deployment
+    const active = deployments[0];
+    const traffic = new Map(
+      (active?.versions ?? []).map((v) => [v.version_id, v.percentage])
+    );
+    if (active) {
+      logger.info(
+        `Active deployment ${active.id.slice(0, 8)}...: ${formatTrafficSplit(active.versions, versions)}`
+      );
+    }
+
+    // Determine the new split: from --split, or interactively
+    const entries =
+      options.split ?? (await selectTrafficSplit(versions, traffic));
+    const split = resolveTrafficSplit(entries, versions);
+
+    const unchanged =
+      split.length === traffic.size &&
+      split.every((s) => traffic.get(s.version_id) === s.percentage);
+    if (unchanged) {
+      logger.info('The active deployment already uses this split. Nothing to do.');
+      process.exit(ExitCode.NothingToDo);
+    }
+
+    await warnScheduledForDeletion(
+      options.checkpoint ?? getLastRunPath(),
+      clientConfig.accountId,
+      scriptName,
+      split,
+      versions
+    );
+
+    logger.info(
+      `New deployment for "${scriptName}": ${formatTrafficSplit(split, versions)}`
+    );
+
+    // Dry run mode
+    if (options.dryRun) {
+      logger.dryRun('No deployment created.');
+      return;
+    }
+
+    const shouldProceed = await confirmDeploymentCreation(
+      scriptName,
+      split.length,
+      { force: options.force }
+    );
+
+    if (!shouldProceed) {
+      logger.info('Deployment cancelled.');
+      return;
+    }
+
+    spinner.start('Creating deployment...');
+    const deployment = await api.createDeployment(scriptName, {
+      versions: split,
+      message: options.message,
+    });
+    spinner.stop();
+
+    logger.success(
+      chalk.green(
+        `Deployment ${deployment.id.slice(0, 8)}... is now active: ${formatTrafficSplit(split, versions)}`
+      )
+    );
+  } catch (error) {
+    spinner.stop();
+
+    if (error instanceof CloudflareAPIError) {
+      logger.error(error.message);
+      if (error.statusCode === 403) {
+        logger.info(
+          'Make sure your API token has "Workers Scripts: Read" and "Workers Scripts: Edit" permissions.'
+        );
+      }
+    } else if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unknown error occurred.');
+    }
+
+    process.exit(exitCodeForError(error));
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Columns available to the list and versions list output formats
+ */
+import {
+  resolveColumns,
+  type Column,
+  type ListFormat,
+  type SortOrder,
+} from '../utils/format.js';
+import type { Deployment, Version } from '../lib/cloudflare-api.js';
+import type { DeploymentReference } from '../lib/traffic.js';
+
+export interface ListOutputOptions {
+  json?: boolean;
+  format?: ListFormat;
+  columns?: string[];
+  sort?: SortOrder;
+}
+
+export interface ListOutput<T> {
+  format: ListFormat;
+  columns: Column<T>[];
+}
+
+export interface DeploymentRow {
+  deployment: Deployment;
+  /** True for the deployment currently serving traffic */
+  active: boolean;
+  /** Version numbers by ID, for versions that could be loaded */
+  versionNumbers: Map<string, number>;
+}
+
+export interface VersionRow {
+  version: Version;
+  /** Share of traffic in the active deployment (0 when not deployed) */
+  traffic: number;
+  protectedReason?: string;
+  /** Deployments referencing the version, newest first */
+  deployments: DeploymentReference[];
+  /** workers.dev preview URL, when the subdomain could be resolved */
+  previewUrl?: string;
+  /** Preview alias URL, when the version has an alias */
+  aliasUrl?: string;
+}
+
+export const DEPLOYMENT_COLUMNS: Column<DeploymentRow>[] = [
+  { name: 'id', value: ({ deployment }) => deployment.id },
+  { name: 'created_on', value: ({ deployment }) => deployment.created_on },
+  { name: 'author', value: ({ deployment }) => deployment.author_email },
+  { name: 'source', value: ({ deployment }) => deployment.source },
+  { name: 'strategy', value: ({ deployment }) => deployment.strategy },
+  {
+    name: 'message',
+    value: ({ deployment }) => deployment.annotations?.['workers/message'],
+  },
+  {
+    name: 'traffic',
+    value: ({ deployment, versionNumbers }) =>
+      (deployment.versions ?? [])
+        .map((v) => {
+          const number = versionNumbers.get(v.version_id);
+          const label = number !== undefined ? ` (#${number})` : '';
+          return `${v.percentage}% ${v.version_id}${label}`;
+        })
+        .join(', '),
+  },
+  {
+    name: 'version_numbers',
+    value: ({ deployment, versionNumbers }) =>
+      (deployment.versions ?? [])
+        .map((v) => versionNumbers.get(v.version_id))
+        .filter((n) => n !== undefined)
+        .map((n) => `#${n}`)
+        .join(', '),
+  },
+  { name: 'active', value: ({ active }) => active },
+];
+
+export const VERSION_COLUMNS: Column<VersionRow>[] = [
+  { name: 'id', value: ({ version }) => version.id },
+  { name: 'number', value: ({ version }) => version.number },
+  { name: 'created_on', value: ({ version }) => version.metadata.created_on },
+  { name: 'author', value: ({ version }) => version.metadata.author_email },
+  { name: 'source', value: ({ version }) => version.metadata.source },
+  { name: 'tag', value: ({ version }) => version.annotations?.['workers/tag'] },
+  {
+    name: 'message',
+    value: ({ version }) => version.annotations?.['workers/message'],
+  },
+  { name: 'traffic', value: ({ traffic }) => traffic },
+  { name: 'active', value: ({ traffic }) => traffic > 0 },
+  {
+    name: 'deployments',
+    value: ({ deployments }) =>
+      deployments
+        .map(
+          (d) =>
+            `${d.deploymentId} ${d.percentage}%${d.active ? ' (active)' : ''}`
+        )
+        .join(', '),
+  },
+  { name: 'protected', value: ({ protectedReason }) => protectedReason },
+  { name: 'preview_url', value: ({ previewUrl }) => previewUrl },
+  { name: 'alias_url', value: ({ aliasUrl }) => aliasUrl },
+];
+
+export const DEFAULT_DEPLOYMENT_COLUMNS = [
+  'id',
+  'created_on',
+  'author',
+  'source',
+  'traffic',
+  'active',
+];
+
+export const DEFAULT_VERSION_COLUMNS = [
+  'id',
+  'number',
+  'created_on',
+  'author',
+  'source',
+  'tag',
+  'message',
+  'traffic',
+  'active',
+  'deployments',
+  'preview_url',
+];
+
+/**
+ * Work out the requested format and columns
+ * Returns undefined for the default human-readable output; --columns or
+ * --sort on their own imply a table.
+ * @throws {Error} for unknown column names
+ */
+export function resolveListOutput<T>(
+  options: ListOutputOptions,
+  available: Column<T>[],
+  defaults: string[]
+): ListOutput<T> | undefined {
+  const format =
+    options.format ?? (options.columns || options.sort ? 'table' : undefined);
+  if (!format) {
+    return undefined;
+  }
+  if (options.sort) {
+    resolveColumns(available, [options.sort.column]);
+  }
+  return {
+    format,
+    columns: resolveColumns(available, options.columns ?? defaults),
+  };
+}
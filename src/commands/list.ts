@@ -1,32 +1,87 @@
 /**
  * List command - displays all deployments for a Worker script
  */
-import ora from 'ora';
 import chalk from 'chalk';
 import { CloudflareAPI, CloudflareAPIError } from '../lib/cloudflare-api.js';
-import { getEnv } from '../config/index.js';
+import { getClientConfig, resolveScriptName } from '../config/index.js';
 import { logger } from '../utils/logger.js';
+import { startSpinner } from '../utils/spinner.js';
+import { ExitCode, exitCodeForError } from '../utils/exit-codes.js';
+import { renderList, sortItems } from '../utils/format.js';
+import { formatTrafficSplit } from '../lib/traffic.js';
+import {
+  DEFAULT_DEPLOYMENT_COLUMNS,
+  DEPLOYMENT_COLUMNS,
+  resolveListOutput,
+  type DeploymentRow,
+  type ListOutputOptions,
+} from './list-columns.js';
 
-export interface ListOptions {
-  json?: boolean;
-}
+export type ListOptions = ListOutputOptions;
 
 export async function listCommand(
-  scriptName: string,
+  scriptNameArg: string | undefined,
   options: ListOptions
 ): Promise<void> {
-  const spinner = ora('Fetching deployments...').start();
+  let output;
+  try {
+    output = resolveListOutput(
+      options,
+      DEPLOYMENT_COLUMNS,
+      DEFAULT_DEPLOYMENT_COLUMNS
+    );
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : 'Unknown error');
+    process.exit(ExitCode.Usage);
+  }
+
+  // Keep stdout clean for the rendered list
+  if (output) {
+    logger.redirectToStderr();
+  }
+
+  const spinner = startSpinner('Fetching deployments...');
 
   try {
-    const env = getEnv();
-    const api = new CloudflareAPI({
-      accountId: env.CLOUDFLARE_ACCOUNT_ID,
-      apiToken: env.CLOUDFLARE_API_TOKEN,
-    });
+    const scriptName = resolveScriptName(scriptNameArg);
+    const clientConfig = getClientConfig();
+    const api = new CloudflareAPI(clientConfig);
+
+    const {
+      items: deployments,
+      totalCount,
+      truncated,
+    } = await api.listDeployments(scriptName);
 
-    const deployments = await api.listDeployments(scriptName);
+    // Versions give the traffic split its version numbers
+    spinner.text = 'Fetching versions...';
+    const { items: versions } =
+      deployments.length > 0 ? await api.listVersions(scriptName) : { items: [] };
+    const versionNumbers = new Map(versions.map((v) => [v.id, v.number]));
     spinner.stop();
 
+    // Formatted output mode
+    if (output) {
+      if (truncated) {
+        logger.warn(
+          `Only the first ${deployments.length} of ${totalCount} deployment(s) were loaded (item limit reached).`
+        );
+      }
+      const rows: DeploymentRow[] = deployments.map((deployment, index) => ({
+        deployment,
+        active: index === 0,
+        versionNumbers,
+      }));
+      console.log(
+        renderList(
+          output.format,
+          output.columns,
+          options.sort ? sortItems(rows, DEPLOYMENT_COLUMNS, options.sort) : rows
+        )
+      );
+      return;
+    }
+
     if (deployments.length === 0) {
       logger.warn(`No deployments found for script "${scriptName}".`);
       return;
@@ -38,15 +93,22 @@ export async function listCommand(
       return;
     }
 
+    if (truncated) {
+      logger.warn(
+        `Only the first ${deployments.length} of ${totalCount} deployment(s) were loaded (item limit reached).`
+      );
+    }
+
     // Human-readable output
     console.log(
-      chalk.bold(`\nDeployments for "${scriptName}" (${deployments.length} total):\n`)
+      chalk.bold(`\nDeployments for "${scriptName}" (${totalCount} total):\n`)
     );
 
     logger.printDeployments(
       deployments.map((d, index) => ({
         ...d,
         isActive: index === 0,
+        traffic: formatTrafficSplit(d.versions ?? [], versions),
       }))
     );
 
@@ -74,6 +136,6 @@ export async function listCommand(
       logger.error('An unknown error occurred.');
     }
 
-    process.exit(1);
+    process.exit(exitCodeForError(error));
   }
 }
@@ -0,0 +1,279 @@
+/**
+ * Pages Delete command - remove Cloudflare Pages deployments and their preview URLs
+ */
+import chalk from 'chalk';
+import { CloudflareAPI, CloudflareAPIError } from '../lib/cloudflare-api.js';
+import type {
+  PagesDeployment,
+  PagesEnvironment,
+} from '../lib/cloudflare-api.js';
+import { getClientConfig, getSafetyRules } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { startSpinner } from '../utils/spinner.js';
+import { ExitCode } from '../utils/exit-codes.js';
+import { pagesDeploymentAuditRecorder } from '../lib/audit.js';
+import { filterPagesDeployments, loadPagesInventory } from '../lib/pages.js';
+import { safetyGuardFor } from '../lib/safety.js';
+import { executePagesDeploymentCleanup } from '../lib/cleanup.js';
+import { createCheckpoint } from '../lib/checkpoint.js';
+import {
+  finishAudit,
+  finishCheckpoint,
+  retryFailedHint,
+  startCheckpoint,
+} from './checkpoint.js';
+import { resumeCommand } from './resume.js';
+import {
+  DeleteReporter,
+  machineOutputProblem,
+  outputFormatFrom,
+  type OutputOptions,
+} from './delete-report.js';
+import {
+  confirmPagesDeletion,
+  confirmTypedDeletion,
+  selectPagesDeploymentsToDelete,
+} from '../utils/prompts.js';
+
+export interface PagesDeleteOptions extends OutputOptions {
+  dryRun?: boolean;
+  force?: boolean;
+  /** Lets --force skip typed confirmation */
+  iUnderstand?: boolean;
+  all?: boolean;
+  branch?: string;
+  environment?: PagesEnvironment;
+  checkpoint?: string;
+  resume?: string;
+}
+
+export async function pagesDeleteCommand(
+  projectNameArg: string | undefined,
+  options: PagesDeleteOptions
+): Promise<void> {
+  if (options.resume) {
+    return resumeCommand(options.resume, {
+      resourceType: 'pages_deployment',
+      dryRun: options.dryRun,
+      force: options.force,
+      iUnderstand: options.iUnderstand,
+      json: options.json,
+      output: options.output,
+    });
+  }
+
+  if (!projectNameArg) {
+    logger.error('Pages project name is required (or use --resume <file>).');
+    process.exit(ExitCode.Usage);
+  }
+  const projectName = projectNameArg;
+
+  const reporter = new DeleteReporter(
+    outputFormatFrom(options),
+    'pages_deployment',
+    options.dryRun
+  );
+  const problem = machineOutputProblem(reporter, {
+    dryRun: options.dryRun,
+    force: options.force,
+    interactiveSelection: !options.all,
+    selectionFlags: 'Use --all (optionally with --branch or --environment).',
+  });
+  if (problem) {
+    logger.error(problem);
+    process.exit(ExitCode.Usage);
+  }
+
+  const spinner = startSpinner('Fetching Pages project...');
+
+  try {
+    const clientConfig = getClientConfig();
+    const api = new CloudflareAPI(clientConfig);
+
+    const { deployments, totalCount, truncated, protectedDeployments } =
+      await loadPagesInventory(api, projectName, {
+        onProgress: (stage) => {
+          spinner.text = `Fetching ${stage === 'project' ? 'Pages project' : 'deployments'}...`;
+        },
+      });
+    spinner.stop();
+
+    const matching = filterPagesDeployments(deployments, {
+      branch: options.branch,
+      environment: options.environment,
+    });
+
+    if (matching.length === 0) {
+      logger.warn(
+        `No matching deployments found for Pages project "${projectName}".`
+      );
+      process.exit(reporter.finish(ExitCode.NothingToDo));
+    }
+
+    matching
+      .filter((d) => protectedDeployments.has(d.id))
+      .forEach((d) =>
+        reporter.skipped(
+          { scriptName: projectName, id: d.id },
+          protectedDeployments.get(d.id) ?? 'protected'
+        )
+      );
+
+    if (truncated) {
+      logger.warn(
+        `Only the first ${deployments.length} of ${totalCount} deployment(s) were loaded (item limit reached).`
+      );
+    }
+
+    // Production and the latest deployment of each branch are never deletable
+    const deletable = matching.filter((d) => !protectedDeployments.has(d.id));
+
+    logger.info(
+      `Found ${matching.length} matching deployment(s), ${deletable.length} can be deleted.`
+    );
+    logger.newline();
+
+    if (deletable.length === 0) {
+      logger.warn(
+        'Every matching deployment is protected (production or latest for its branch).'
+      );
+      process.exit(reporter.finish(ExitCode.NothingToDo));
+    }
+
+    // Determine which deployments to delete
+    let toDelete: PagesDeployment[];
+    if (options.all) {
+      toDelete = deletable;
+      logger.info(`Selected all ${toDelete.length} deletable deployment(s).`);
+    } else {
+      toDelete = await selectPagesDeploymentsToDelete(
+        matching,
+        protectedDeployments
+      );
+    }
+
+    // Protected deployments are never deleted, whatever the selection path
+    toDelete = toDelete.filter((d) => !protectedDeployments.has(d.id));
+
+    if (toDelete.length === 0) {
+      logger.info('No deployments selected. Exiting.');
+      process.exit(reporter.finish(ExitCode.NothingToDo));
+    }
+
+    reporter.selected(
+      toDelete.map((d) => ({ scriptName: projectName, id: d.id }))
+    );
+
+    // Dry run mode
+    if (options.dryRun) {
+      logger.dryRun('The following Pages deployments would be deleted:');
+      logger.printPagesDeployments(toDelete);
+      logger.dryRun(
+        `Total: ${toDelete.length} deployment(s). No actual deletion performed.`
+      );
+      reporter.finish(ExitCode.Success);
+      return;
+    }
+
+    // Confirm deletion; large or protected-project deletions must be typed out
+    const guard = safetyGuardFor(
+      [projectName],
+      toDelete.length,
+      getSafetyRules()
+    );
+    const shouldProceed = guard
+      ? await confirmTypedDeletion(guard, options)
+      : await confirmPagesDeletion(projectName, toDelete.length, {
+          force: options.force,
+          all: options.all,
+        });
+
+    if (!shouldProceed) {
+      logger.info('Deletion cancelled.');
+      return;
+    }
+
+    // Record progress so an interrupted run can be resumed
+    const recorder = await startCheckpoint(
+      options.checkpoint,
+      createCheckpoint(
+        clientConfig.accountId,
+        'pages_deployment',
+        toDelete.map((d) => ({ scriptName: projectName, id: d.id }))
+      )
+    );
+
+    // Execute deletion
+    logger.newline();
+    spinner.start('Deleting Pages deployments...');
+
+    const audit = pagesDeploymentAuditRecorder({
+      accountId: clientConfig.accountId,
+    });
+    const result = await executePagesDeploymentCleanup(
+      api,
+      { projectName, toDelete },
+      {
+        checkpoint: recorder,
+        audit,
+        onOutcome: (deployment, failure) =>
+          reporter.outcome(
+            { scriptName: projectName, id: deployment.id },
+            failure
+          ),
+        onProgress: (completed, total, id) => {
+          spinner.text = `Deleting Pages deployments... (${completed}/${total}) - ${id.slice(0, 8)}...`;
+        },
+      }
+    );
+
+    spinner.stop();
+    await finishCheckpoint(recorder);
+    await finishAudit(audit);
+
+    // Report results
+    if (result.deleted.length > 0) {
+      logger.success(
+        `Successfully deleted ${result.deleted.length} deployment(s).`
+      );
+    }
+
+    if (result.failed.length > 0) {
+      logger.error(`Failed to delete ${result.failed.length} deployment(s):`);
+      result.failed.forEach(({ item, error }) => {
+        logger.error(`- ${item.id.slice(0, 8)}...: ${error}`);
+      });
+    }
+
+    // Summary
+    logger.newline();
+    if (result.failed.length === 0) {
+      logger.success(
+        chalk.green('All selected Pages deployments have been deleted.')
+      );
+      reporter.finish(ExitCode.Success);
+    } else {
+      logger.warn(
+        `Completed with ${result.failed.length} error(s). Run "${retryFailedHint(recorder)}" to retry them.`
+      );
+      process.exit(reporter.finish(ExitCode.PartialFailure));
+    }
+  } catch (error) {
+    spinner.stop();
+
+    if (error instanceof CloudflareAPIError) {
+      logger.error(error.message);
+      if (error.statusCode === 403) {
+        logger.info(
+          'Make sure your API token has "Cloudflare Pages: Read" and "Cloudflare Pages: Edit" permissions.'
+        );
+      }
+    } else if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unknown error occurred.');
+    }
+
+    process.exit(reporter.fail(error));
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Pages List command - displays the deployments of a Cloudflare Pages project
+ */
+import chalk from 'chalk';
+import { CloudflareAPI, CloudflareAPIError } from '../lib/cloudflare-api.js';
+import type { PagesEnvironment } from '../lib/cloudflare-api.js';
+import { getClientConfig } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { startSpinner } from '../utils/spinner.js';
+import { ExitCode, exitCodeForError } from '../utils/exit-codes.js';
+import { filterPagesDeployments, loadPagesInventory } from '../lib/pages.js';
+
+export interface PagesListOptions {
+  branch?: string;
+  environment?: PagesEnvironment;
+  json?: boolean;
+}
+
+export async function pagesListCommand(
+  projectName: string,
+  options: PagesListOptions
+): Promise<void> {
+  const spinner = startSpinner('Fetching Pages project...');
+
+  try {
+    const clientConfig = getClientConfig();
+    const api = new CloudflareAPI(clientConfig);
+
+    const { deployments, totalCount, truncated, protectedDeployments } =
+      await loadPagesInventory(api, projectName, {
+        onProgress: (stage) => {
+          spinner.text = `Fetching ${stage === 'project' ? 'Pages project' : 'deployments'}...`;
+        },
+      });
+    spinner.stop();
+
+    const matching = filterPagesDeployments(deployments, {
+      branch: options.branch,
+      environment: options.environment,
+    });
+
+    // JSON output mode
+    if (options.json) {
+      console.log(JSON.stringify(matching, null, 2));
+      return;
+    }
+
+    if (matching.length === 0) {
+      logger.warn(
+        `No matching deployments found for Pages project "${projectName}".`
+      );
+      process.exit(ExitCode.NothingToDo);
+    }
+
+    if (truncated) {
+      logger.warn(
+        `Only the first ${deployments.length} of ${totalCount} deployment(s) were loaded (item limit reached).`
+      );
+    }
+
+    const protectedCount = matching.filter((d) =>
+      protectedDeployments.has(d.id)
+    ).length;
+
+    console.log(
+      chalk.bold(
+        `\nDeployments for Pages project "${projectName}" (${matching.length} of ${totalCount} total):`
+      )
+    );
+
+    logger.printPagesDeployments(
+      matching.map((d) => ({
+        ...d,
+        protectedReason: protectedDeployments.get(d.id),
+      }))
+    );
+
+    logger.info(
+      `${matching.length - protectedCount} deployment(s) can be deleted. Production and the latest deployment of each branch are protected.`
+    );
+  } catch (error) {
+    spinner.stop();
+
+    if (error instanceof CloudflareAPIError) {
+      logger.error(error.message);
+      if (error.statusCode === 403) {
+        logger.info(
+          'Make sure your API token has the "Cloudflare Pages: Read" permission.'
+        );
+      }
+    } else if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unknown error occurred.');
+    }
+
+    process.exit(exitCodeForError(error));
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Previews Status command - show whether scripts have preview URLs and a workers.dev route
+ */
+import chalk from 'chalk';
+import { CloudflareAPI, CloudflareAPIError } from '../lib/cloudflare-api.js';
+import { getClientConfig, resolveScriptName } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { startSpinner } from '../utils/spinner.js';
+import { ExitCode, exitCodeForError } from '../utils/exit-codes.js';
+import { filterScripts, type ScriptFilter } from '../lib/scan.js';
+import {
+  updatePreviewSettings,
+  updateScriptPreviewSettings,
+  type PreviewSettingsResult,
+} from '../lib/previews.js';
+
+export interface PreviewsScopeOptions extends ScriptFilter {
+  /** Apply to every Worker script in the account instead of one */
+  allScripts?: boolean;
+}
+
+export interface PreviewsStatusOptions extends PreviewsScopeOptions {
+  json?: boolean;
+}
+
+/**
+ * Resolve the single script a previews command applies to, if any
+ * Call this before getClientConfig() so the wrangler config's account_id
+ * is used.
+ */
+export function previewScriptName(
+  scriptNameArg: string | undefined,
+  options: PreviewsScopeOptions
+): string | undefined {
+  return options.allScripts ? undefined : resolveScriptName(scriptNameArg);
+}
+
+/**
+ * Names of the scripts a previews command applies to
+ */
+export async function previewScriptNames(
+  api: CloudflareAPI,
+  scriptName: string | undefined,
+  options: PreviewsScopeOptions
+): Promise<string[]> {
+  if (scriptName !== undefined) {
+    return [scriptName];
+  }
+  const { items } = await api.listScripts();
+  return filterScripts(items, options).map((s) => s.id);
+}
+
+/**
+ * Read workers.dev settings, letting a single script's error propagate
+ * so it maps to the right exit code
+ */
+export async function readPreviewSettings(
+  api: CloudflareAPI,
+  scriptNames: string[],
+  options: PreviewsScopeOptions,
+  onScript?: (scriptName: string, index: number, total: number) => void
+): Promise<PreviewSettingsResult[]> {
+  if (!options.allScripts) {
+    return [await updateScriptPreviewSettings(api, scriptNames[0], {})];
+  }
+  return updatePreviewSettings(api, scriptNames, {}, { onScript });
+}
+
+export async function previewsStatusCommand(
+  scriptNameArg: string | undefined,
+  options: PreviewsStatusOptions
+): Promise<void> {
+  // Keep stdout clean for the JSON report
+  if (options.json) {
+    logger.redirectToStderr();
+  }
+
+  const spinner = startSpinner('Fetching scripts...');
+
+  try {
+    const scriptName = previewScriptName(scriptNameArg, options);
+    const clientConfig = getClientConfig();
+    const api = new CloudflareAPI(clientConfig);
+
+    const scriptNames = await previewScriptNames(api, scriptName, options);
+    if (scriptNames.length === 0) {
+      spinner.stop();
+      logger.warn('No Worker scripts matched.');
+      process.exit(ExitCode.NothingToDo);
+    }
+
+    spinner.text = 'Fetching workers.dev settings...';
+    const results = await readPreviewSettings(
+      api,
+      scriptNames,
+      options,
+      (scriptName, index, total) => {
+        spinner.text = `Fetching workers.dev settings... (${index + 1}/${total}) - ${scriptName}`;
+      }
+    );
+    spinner.stop();
+
+    const failed = results.filter((r) => r.error).length;
+    const exitCode = failed > 0 ? ExitCode.PartialFailure : ExitCode.Success;
+
+    // JSON output mode
+    if (options.json) {
+      console.log(
+        JSON.stringify(
+          results.map(({ scriptName, after, error }) =>
+            after ? { scriptName, ...after } : { scriptName, error }
+          ),
+          null,
+          2
+        )
+      );
+      process.exit(exitCode);
+    }
+
+    // Human-readable output
+    console.log(
+      chalk.bold(`\nworkers.dev settings of ${results.length} script(s):`)
+    );
+    logger.printPreviewSettings(results);
+
+    const previewing = results.filter((r) => r.after?.previews_enabled).length;
+    if (previewing > 0) {
+      logger.info(
+        `${previewing} script(s) create a preview URL for every version. Use "${chalk.cyan('cwc previews disable')}" to turn them off.`
+      );
+    }
+    if (failed > 0) {
+      logger.warn(`Could not read the settings of ${failed} script(s).`);
+      process.exit(exitCode);
+    }
+  } catch (error) {
+    spinner.stop();
+
+    if (error instanceof CloudflareAPIError) {
+      logger.error(error.message);
+      if (error.statusCode === 403) {
+        logger.info(
+          'Make sure your API token has "Workers Scripts: Read" permission.'
+        );
+      }
+    } else if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unknown error occurred.');
+    }
+
+    process.exit(exitCodeForError(error));
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Previews Enable/Disable commands - turn preview URLs (and the workers.dev route) on or off
+ */
+import chalk from 'chalk';
+import { CloudflareAPI, CloudflareAPIError } from '../lib/cloudflare-api.js';
+import { getClientConfig } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { startSpinner } from '../utils/spinner.js';
+import { ExitCode, exitCodeForError } from '../utils/exit-codes.js';
+import {
+  updatePreviewSettings,
+  updateScriptPreviewSettings,
+  type PreviewSettingsChange,
+  type PreviewSettingsResult,
+} from '../lib/previews.js';
+import { confirmPreviewSettingsChange } from '../utils/prompts.js';
+import {
+  previewScriptName,
+  previewScriptNames,
+  readPreviewSettings,
+  type PreviewsScopeOptions,
+} from './previews-status.js';
+
+export interface PreviewsToggleOptions extends PreviewsScopeOptions {
+  /** Also turn the <script>.<subdomain>.workers.dev route on or off */
+  workersDev?: boolean;
+  dryRun?: boolean;
+  force?: boolean;
+  json?: boolean;
+}
+
+/**
+ * Print the outcome as a table, or as JSON and exit
+ */
+function printReport(
+  action: string,
+  dryRun: boolean,
+  results: PreviewSettingsResult[],
+  exitCode: ExitCode,
+  json?: boolean
+): void {
+  if (json) {
+    console.log(
+      JSON.stringify(
+        {
+          action,
+          dryRun,
+          results,
+          summary: {
+            changed: results.filter((r) => r.changed).length,
+            unchanged: results.filter((r) => r.after && !r.changed).length,
+            failed: results.filter((r) => r.error).length,
+          },
+          exitCode,
+        },
+        null,
+        2
+      )
+    );
+    process.exit(exitCode);
+  }
+  logger.printPreviewSettings(results);
+}
+
+async function previewsToggleCommand(
+  enabled: boolean,
+  scriptNameArg: string | undefined,
+  options: PreviewsToggleOptions
+): Promise<void> {
+  const verb = enabled ? 'enable' : 'disable';
+
+  // Keep stdout clean for the JSON report
+  if (options.json) {
+    logger.redirectToStderr();
+  }
+
+  const spinner = startSpinner('Fetching scripts...');
+
+  try {
+    const scriptName = previewScriptName(scriptNameArg, options);
+    const clientConfig = getClientConfig();
+    const api = new CloudflareAPI(clientConfig);
+
+    const scriptNames = await previewScriptNames(api, scriptName, options);
+    if (scriptNames.length === 0) {
+      spinner.stop();
+      logger.warn('No Worker scripts matched.');
+      process.exit(ExitCode.NothingToDo);
+    }
+
+    spinner.text = 'Fetching workers.dev settings...';
+    const current = await readPreviewSettings(
+      api,
+      scriptNames,
+      options,
+      (scriptName, index, total) => {
+        spinner.text = `Fetching workers.dev settings... (${index + 1}/${total}) - ${scriptName}`;
+      }
+    );
+    spinner.stop();
+
+    // What each script would look like after the change
+    const change: PreviewSettingsChange = {
+      previews_enabled: enabled,
+      ...(options.workersDev ? { enabled } : {}),
+    };
+    const planned = current.map((r): PreviewSettingsResult => {
+      if (!r.before) {
+        return r;
+      }
+      const after = { ...r.before, ...change };
+      const changed =
+        after.enabled !== r.before.enabled ||
+        after.previews_enabled !== r.before.previews_enabled;
+      return { ...r, after, changed };
+    });
+    const pending = planned.filter((r) => r.changed).map((r) => r.scriptName);
+    const readFailures = planned.filter((r) => r.error).length;
+
+    if (pending.length === 0) {
+      const exitCode =
+        readFailures > 0 ? ExitCode.PartialFailure : ExitCode.NothingToDo;
+      printReport(verb, false, planned, exitCode, options.json);
+      logger.info(
+        `Preview URLs are already ${verb}d for every script that could be read.`
+      );
+      process.exit(exitCode);
+    }
+
+    // Dry run mode
+    if (options.dryRun) {
+      const exitCode =
+        readFailures > 0 ? ExitCode.PartialFailure : ExitCode.Success;
+      logger.dryRun('The following settings would change:');
+      printReport(verb, true, planned, exitCode, options.json);
+      logger.dryRun(
+        `Would ${verb} preview URLs of ${pending.length} script(s). No settings changed.`
+      );
+      return;
+    }
+
+    const shouldProceed = await confirmPreviewSettingsChange(enabled, pending, {
+      force: options.force,
+      workersDev: options.workersDev,
+    });
+
+    if (!shouldProceed) {
+      logger.info('Cancelled. No settings changed.');
+      return;
+    }
+
+    spinner.start('Updating workers.dev settings...');
+    const updated = options.allScripts
+      ? await updatePreviewSettings(api, pending, change, {
+          onScript: (scriptName, index, total) => {
+            spinner.text = `Updating workers.dev settings... (${index + 1}/${total}) - ${scriptName}`;
+          },
+        })
+      : [await updateScriptPreviewSettings(api, pending[0], change)];
+    spinner.stop();
+
+    const results = current.map(
+      (r) => updated.find((u) => u.scriptName === r.scriptName) ?? r
+    );
+    const failed = results.filter((r) => r.error);
+    const exitCode =
+      failed.length > 0 ? ExitCode.PartialFailure : ExitCode.Success;
+    printReport(verb, false, results, exitCode, options.json);
+
+    const changed = results.filter((r) => r.changed).length;
+    if (changed > 0) {
+      logger.success(
+        chalk.green(`Preview URLs ${verb}d for ${changed} script(s).`)
+      );
+    }
+    if (!enabled && changed > 0) {
+      logger.info(
+        `New uploads no longer get preview URLs. Versions are kept; use "${chalk.cyan('cwc versions delete')}" to remove them.`
+      );
+    }
+
+    if (failed.length > 0) {
+      logger.error(`Failed to read or update ${failed.length} script(s):`);
+      failed.forEach(({ scriptName, error }) => {
+        logger.error(`- ${scriptName}: ${error}`);
+      });
+      process.exit(exitCode);
+    }
+  } catch (error) {
+    spinner.stop();
+
+    if (error instanceof CloudflareAPIError) {
+      logger.error(error.message);
+      if (error.statusCode === 403) {
+        logger.info(
+          'Make sure your API token has "Workers Scripts: Read" and "Workers Scripts: Edit" permissions.'
+        );
+      }
+    } else if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unknown error occurred.');
+    }
+
+    process.exit(exitCodeForError(error));
+  }
+}
+
+/**
+ * Stop scripts from creating preview URLs and take existing ones offline
+ */
+export async function previewsDisableCommand(
+  scriptNameArg: string | undefined,
+  options: PreviewsToggleOptions
+): Promise<void> {
+  return previewsToggleCommand(false, scriptNameArg, options);
+}
+
+/**
+ * Let scripts create preview URLs again
+ */
+export async function previewsEnableCommand(
+  scriptNameArg: string | undefined,
+  options: PreviewsToggleOptions
+): Promise<void> {
+  return previewsToggleCommand(true, scriptNameArg, options);
+}
@@ -0,0 +1,211 @@
+/**
+ * Previews Verify command - check that preview URLs of deleted versions no longer respond
+ */
+import chalk from 'chalk';
+import { CloudflareAPI, CloudflareAPIError } from '../lib/cloudflare-api.js';
+import { getClientConfig, resolveScriptName } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { startSpinner } from '../utils/spinner.js';
+import { ExitCode, exitCodeForError } from '../utils/exit-codes.js';
+import { readAuditLog } from '../lib/audit.js';
+import {
+  createHttpProber,
+  previewUrlsFor,
+  verifyPreviewUrls,
+  type PreviewCheck,
+  type PreviewUrl,
+} from '../lib/previews.js';
+
+export interface PreviewsVerifyOptions {
+  versionId?: string[];
+  since?: Date;
+  timeout?: number;
+  probeOrigin?: string;
+  json?: boolean;
+}
+
+/**
+ * One line describing how a URL answered
+ */
+function describeCheck(check: PreviewCheck): string {
+  const label = check.kind === 'alias' ? ` (alias ${check.alias})` : '';
+  switch (check.state) {
+    case 'gone':
+      return `${chalk.green('✓ gone')} (${check.status}) ${check.url}${label}`;
+    case 'responding':
+      return `${chalk.red('✗ still responding')} (${check.status}) ${check.url}${label}`;
+    case 'unreachable':
+      return `${chalk.yellow('? unreachable')} (${check.error}) ${check.url}${label}`;
+  }
+}
+
+export async function previewsVerifyCommand(
+  scriptNameArg: string | undefined,
+  options: PreviewsVerifyOptions
+): Promise<void> {
+  const tooShort = (options.versionId ?? []).filter((id) => id.length < 8);
+  if (tooShort.length > 0) {
+    logger.error(
+      `Version IDs must have at least 8 characters (preview URLs use the first 8): ${tooShort.join(', ')}`
+    );
+    process.exit(ExitCode.Usage);
+  }
+
+  // Keep stdout clean for the JSON report
+  if (options.json) {
+    logger.redirectToStderr();
+  }
+
+  const spinner = startSpinner('Fetching workers.dev subdomain...');
+
+  try {
+    const scriptName = resolveScriptName(scriptNameArg);
+    const clientConfig = getClientConfig();
+    const api = new CloudflareAPI(clientConfig);
+
+    const subdomain = await api.getWorkersSubdomain();
+
+    spinner.text = 'Fetching versions...';
+    const { items: versions } = await api.listVersions(scriptName);
+
+    spinner.text = 'Reading audit log...';
+    const deleted = (
+      await readAuditLog({ scriptName, since: options.since })
+    ).filter(
+      (e) =>
+        e.accountId === clientConfig.accountId &&
+        e.resourceType === 'version' &&
+        e.outcome === 'success'
+    );
+    spinner.stop();
+
+    // Versions to check: deleted ones from the audit log plus any named explicitly
+    const targets = new Map<string, string | undefined>();
+    for (const entry of deleted) {
+      targets.set(entry.id, entry.alias);
+    }
+    for (const id of options.versionId ?? []) {
+      const current = versions.find((v) => v.id.startsWith(id));
+      targets.set(
+        current?.id ?? id,
+        current?.annotations?.['workers/alias'] ?? targets.get(id)
+      );
+    }
+
+    if (targets.size === 0) {
+      logger.warn(
+        `No deleted versions of "${scriptName}" found in the audit log. Use --version-id to check specific versions.`
+      );
+      process.exit(ExitCode.NothingToDo);
+    }
+
+    const urls: PreviewUrl[] = [];
+    for (const [id, alias] of targets) {
+      const current = versions.find((v) => v.id === id);
+      if (current) {
+        logger.warn(
+          `Version #${current.number} (${id.slice(0, 8)}...) still exists, so its preview URL is expected to respond.`
+        );
+      }
+
+      // An alias that moved to a live version is expected to respond
+      const holder = alias
+        ? versions.find(
+            (v) => v.id !== id && v.annotations?.['workers/alias'] === alias
+          )
+        : undefined;
+      if (holder) {
+        logger.info(
+          `Skipping alias "${alias}": it now points to version #${holder.number} (${holder.id.slice(0, 8)}...).`
+        );
+      }
+
+      urls.push(
+        ...previewUrlsFor(scriptName, subdomain, {
+          id,
+          annotations: alias && !holder ? { 'workers/alias': alias } : {},
+        })
+      );
+    }
+
+    spinner.start('Probing preview URLs...');
+    const checks = await verifyPreviewUrls(
+      urls,
+      createHttpProber({
+        timeoutMs: options.timeout,
+        origin: options.probeOrigin,
+      }),
+      (completed, total) => {
+        spinner.text = `Probing preview URLs... (${completed}/${total})`;
+      }
+    );
+    spinner.stop();
+
+    const count = (state: PreviewCheck['state']) =>
+      checks.filter((c) => c.state === state).length;
+    const summary = {
+      gone: count('gone'),
+      responding: count('responding'),
+      unreachable: count('unreachable'),
+    };
+    const exitCode =
+      summary.gone === checks.length
+        ? ExitCode.Success
+        : ExitCode.PartialFailure;
+
+    // JSON output mode
+    if (options.json) {
+      console.log(
+        JSON.stringify(
+          { scriptName, subdomain, checks, summary, exitCode },
+          null,
+          2
+        )
+      );
+      process.exit(exitCode);
+    }
+
+    // Human-readable output
+    console.log(
+      chalk.bold(
+        `\nPreview URLs of "${scriptName}" (${checks.length} checked):\n`
+      )
+    );
+    checks.forEach((check) => console.log(`  ${describeCheck(check)}`));
+    logger.newline();
+
+    if (exitCode === ExitCode.Success) {
+      logger.success(
+        chalk.green(`All ${checks.length} preview URL(s) are gone (404/410).`)
+      );
+      return;
+    }
+
+    if (summary.responding > 0) {
+      logger.error(`${summary.responding} preview URL(s) still respond.`);
+    }
+    if (summary.unreachable > 0) {
+      logger.warn(
+        `${summary.unreachable} preview URL(s) could not be reached, so they are not confirmed gone.`
+      );
+    }
+    process.exit(exitCode);
+  } catch (error) {
+    spinner.stop();
+
+    if (error instanceof CloudflareAPIError) {
+      logger.error(error.message);
+      if (error.statusCode === 403) {
+        logger.info(
+          'Make sure your API token has "Workers Scripts: Read" permission.'
+        );
+      }
+    } else if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unknown error occurred.');
+    }
+
+    process.exit(exitCodeForError(error));
+  }
+}
@@ -0,0 +1,462 @@
+/**
+ * Resume and Retry Failed commands - continue a bulk deletion from its checkpoint
+ */
+import chalk from 'chalk';
+import { CloudflareAPI, CloudflareAPIError } from '../lib/cloudflare-api.js';
+import {
+  getClientConfig,
+  getProtectionRules,
+  getSafetyRules,
+} from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { startSpinner } from '../utils/spinner.js';
+import {
+  deploymentAuditRecorder,
+  pagesDeploymentAuditRecorder,
+  versionAuditRecorder,
+} from '../lib/audit.js';
+import {
+  confirmDeletion,
+  confirmTypedDeletion,
+  confirmVersionDeletion,
+} from '../utils/prompts.js';
+import { safetyGuardFor } from '../lib/safety.js';
+import { loadVersionInventory } from '../lib/inventory.js';
+import { loadPagesInventory } from '../lib/pages.js';
+import {
+  CheckpointRecorder,
+  getLastRunPath,
+  readCheckpoint,
+  remainingItems,
+  type Checkpoint,
+} from '../lib/checkpoint.js';
+import { backupOptions } from './version-backup.js';
+import {
+  executeDeploymentCleanup,
+  executePagesDeploymentCleanup,
+  executeVersionCleanup,
+  type CleanupResult,
+} from '../lib/cleanup.js';
+import {
+  finishAudit,
+  finishCheckpoint,
+  retryFailedHint,
+} from './checkpoint.js';
+import { ExitCode } from '../utils/exit-codes.js';
+import {
+  DeleteReporter,
+  machineOutputProblem,
+  outputFormatFrom,
+  versionReportItem,
+  type OutputOptions,
+} from './delete-report.js';
+import type {
+  BulkFailure,
+  BulkProgressCallback,
+  Deployment,
+  PagesDeployment,
+  Version,
+} from '../lib/cloudflare-api.js';
+
+export interface ResumeOptions extends OutputOptions {
+  /** Resource type the invoking command deletes */
+  resourceType?: Checkpoint['resourceType'];
+  /** Only retry failed items, leaving pending ones */
+  onlyFailed?: boolean;
+  dryRun?: boolean;
+  force?: boolean;
+  /** Lets --force skip typed confirmation */
+  iUnderstand?: boolean;
+  /** Overrides the backup directory recorded in the checkpoint */
+  backupDir?: string;
+}
+
+export interface RetryFailedOptions extends OutputOptions {
+  checkpoint?: string;
+  dryRun?: boolean;
+  force?: boolean;
+  iUnderstand?: boolean;
+  backupDir?: string;
+}
+
+/**
+ * Targets that still exist and can be deleted, per script (or Pages project)
+ */
+interface ResumeTarget {
+  scriptName: string;
+  versions: Version[];
+  deployments: Deployment[];
+  pagesDeployments: PagesDeployment[];
+}
+
+/**
+ * Noun and delete command for each kind of checkpoint
+ */
+const RESOURCES: Record<
+  Checkpoint['resourceType'],
+  { noun: string; command: string }
+> = {
+  version: { noun: 'version', command: 'versions delete' },
+  deployment: { noun: 'deployment', command: 'delete' },
+  pages_deployment: { noun: 'Pages deployment', command: 'pages delete' },
+};
+
+function targetCount(target: ResumeTarget): number {
+  return (
+    target.versions.length +
+    target.deployments.length +
+    target.pagesDeployments.length
+  );
+}
+
+/**
+ * Group checkpoint items by script, preserving order
+ */
+function groupByScript(items: Array<{ scriptName: string; id: string }>) {
+  const groups = new Map<string, string[]>();
+  for (const { scriptName, id } of items) {
+    groups.set(scriptName, [...(groups.get(scriptName) ?? []), id]);
+  }
+  return groups;
+}
+
+export async function resumeCommand(
+  checkpointFile: string,
+  options: ResumeOptions
+): Promise<void> {
+  const format = outputFormatFrom(options);
+  let reporter = new DeleteReporter(format, 'version', options.dryRun);
+  const problem = machineOutputProblem(reporter, {
+    dryRun: options.dryRun,
+    force: options.force,
+    interactiveSelection: false,
+  });
+  if (problem) {
+    logger.error(problem);
+    process.exit(ExitCode.Usage);
+  }
+
+  const spinner = startSpinner('Reading checkpoint...');
+
+  try {
+    const checkpoint = await readCheckpoint(checkpointFile);
+    const { resourceType } = checkpoint;
+    const { noun } = RESOURCES[resourceType];
+    reporter = new DeleteReporter(format, resourceType, options.dryRun);
+
+    if (options.resourceType && options.resourceType !== resourceType) {
+      throw new Error(
+        `Checkpoint "${checkpointFile}" records ${noun} deletions. Use "cwc ${RESOURCES[resourceType].command} --resume" instead.`
+      );
+    }
+
+    const clientConfig = getClientConfig();
+    if (checkpoint.accountId !== clientConfig.accountId) {
+      throw new Error(
+        `Checkpoint was created for account ${checkpoint.accountId}, but the current account is ${clientConfig.accountId}.`
+      );
+    }
+
+    const remaining = remainingItems(checkpoint, {
+      onlyFailed: options.onlyFailed,
+    });
+    if (remaining.length === 0) {
+      spinner.stop();
+      logger.info(
+        options.onlyFailed
+          ? 'No failed deletions recorded. Nothing to retry.'
+          : 'Every deletion in the checkpoint has completed. Nothing to resume.'
+      );
+      process.exit(reporter.finish(ExitCode.NothingToDo));
+    }
+
+    const api = new CloudflareAPI(clientConfig);
+    const recorder = new CheckpointRecorder(checkpointFile, checkpoint);
+    const rules = getProtectionRules({}, checkpoint.protection);
+    const backupDir = options.backupDir ?? checkpoint.backupDir;
+
+    // Re-check every remaining item against the live state
+    const targets: ResumeTarget[] = [];
+    const summary: string[][] = [];
+    // Items already gone or now protected, recorded only when not a dry run
+    const settled: Array<{ scriptName: string; id: string; reason?: string }> =
+      [];
+    for (const [scriptName, ids] of groupByScript(remaining)) {
+      spinner.text = `Checking ${scriptName}...`;
+      const target: ResumeTarget = {
+        scriptName,
+        versions: [],
+        deployments: [],
+        pagesDeployments: [],
+      };
+      let gone = 0;
+      let skipped = 0;
+
+      if (resourceType === 'version') {
+        const inventory = await loadVersionInventory(api, scriptName, {
+          recentDeployments: checkpoint.protectRecent,
+          rules,
+        });
+        const byId = new Map(inventory.versions.map((v) => [v.id, v]));
+        for (const id of ids) {
+          const version = byId.get(id);
+          const reason = inventory.protectedVersions.get(id);
+          if (!version) {
+            // Deleted by the interrupted run after its last save
+            if (!inventory.truncated) {
+              settled.push({ scriptName, id });
+              gone++;
+            }
+          } else if (reason) {
+            settled.push({ scriptName, id, reason });
+            reporter.skipped(versionReportItem(scriptName, version), reason);
+            skipped++;
+          } else {
+            target.versions.push(version);
+          }
+        }
+      } else if (resourceType === 'pages_deployment') {
+        const { deployments, truncated, protectedDeployments } =
+          await loadPagesInventory(api, scriptName);
+        const byId = new Map(deployments.map((d) => [d.id, d]));
+        for (const id of ids) {
+          const deployment = byId.get(id);
+          const reason = protectedDeployments.get(id);
+          if (!deployment) {
+            if (!truncated) {
+              settled.push({ scriptName, id });
+              gone++;
+            }
+          } else if (reason) {
+            settled.push({ scriptName, id, reason });
+            reporter.skipped({ scriptName, id }, reason);
+            skipped++;
+          } else {
+            target.pagesDeployments.push(deployment);
+          }
+        }
+      } else {
+        const { items: deployments, truncated } =
+          await api.listDeployments(scriptName);
+        const byId = new Map(deployments.map((d) => [d.id, d]));
+        for (const id of ids) {
+          const deployment = byId.get(id);
+          if (!deployment) {
+            if (!truncated) {
+              settled.push({ scriptName, id });
+              gone++;
+            }
+          } else if (deployment === deployments[0]) {
+            settled.push({ scriptName, id, reason: 'active deployment' });
+            reporter.skipped({ scriptName, id }, 'active deployment');
+            skipped++;
+          } else {
+            target.deployments.push(deployment);
+          }
+        }
+      }
+
+      targets.push(target);
+      reporter.selected([
+        ...target.versions.map((v) => versionReportItem(scriptName, v)),
+        ...target.deployments.map((d) => ({ scriptName, id: d.id })),
+        ...target.pagesDeployments.map((d) => ({ scriptName, id: d.id })),
+      ]);
+      summary.push([
+        scriptName,
+        String(targetCount(target)),
+        String(gone),
+        String(skipped),
+      ]);
+    }
+    spinner.stop();
+
+    const total = targets.reduce((sum, t) => sum + targetCount(t), 0);
+
+    logger.info(
+      `Checkpoint from ${logger.formatDate(checkpoint.createdAt)}: ${remaining.length} ${noun}(s) left to delete.`
+    );
+    logger.printTable(
+      ['Script', 'To delete', 'Already deleted', 'Now protected'],
+      summary
+    );
+
+    // Dry run mode
+    if (options.dryRun) {
+      if (total === 0) {
+        logger.info(`No ${noun}s left to delete.`);
+        process.exit(reporter.finish(ExitCode.NothingToDo));
+      }
+      logger.dryRun(
+        `Total: ${total} ${noun}(s). No actual deletion performed.`
+      );
+      reporter.finish(ExitCode.Success);
+      return;
+    }
+
+    for (const { scriptName, id, reason } of settled) {
+      if (reason) {
+        recorder.skip(scriptName, id, `Protected: ${reason}`);
+      } else {
+        recorder.record(scriptName, id);
+      }
+    }
+
+    if (total === 0) {
+      await finishCheckpoint(recorder);
+      logger.info(`No ${noun}s left to delete.`);
+      process.exit(reporter.finish(ExitCode.NothingToDo));
+    }
+
+    // Confirm deletion; large or protected-script deletions must be typed out
+    const guard = safetyGuardFor(
+      targets
+        .filter((t) => targetCount(t) > 0)
+        .map((t) => t.scriptName),
+      total,
+      getSafetyRules()
+    );
+    const shouldProceed = guard
+      ? await confirmTypedDeletion(guard, options)
+      : resourceType === 'version'
+        ? await confirmVersionDeletion(total, { force: options.force })
+        : await confirmDeletion(total, { force: options.force });
+
+    if (!shouldProceed) {
+      await finishCheckpoint(recorder);
+      logger.info('Deletion cancelled.');
+      return;
+    }
+
+    // Execute deletion script by script
+    logger.newline();
+    spinner.start(`Deleting ${noun}s...`);
+    const versionAudit = versionAuditRecorder({
+      accountId: clientConfig.accountId,
+    });
+    const deploymentAudit = deploymentAuditRecorder({
+      accountId: clientConfig.accountId,
+    });
+    const pagesAudit = pagesDeploymentAuditRecorder({
+      accountId: clientConfig.accountId,
+    });
+    let deleted = 0;
+    const failures: Array<{ scriptName: string; id: string; error: string }> = [];
+
+    for (const target of targets) {
+      const { scriptName } = target;
+      const onProgress: BulkProgressCallback = (completed, count, id) => {
+        spinner.text = `Deleting ${noun}s of ${scriptName}... (${completed}/${count}) - ${id.slice(0, 8)}...`;
+      };
+      const onOutcome = (item: { id: string }, failure?: BulkFailure) =>
+        reporter.outcome({ scriptName, id: item.id }, failure);
+
+      let result: CleanupResult<{ id: string }>;
+      if (resourceType === 'version') {
+        result = await executeVersionCleanup(
+          api,
+          { scriptName, toDelete: target.versions },
+          {
+            ...backupOptions(scriptName, backupDir, spinner),
+            checkpoint: recorder,
+            audit: versionAudit,
+            missingIsDeleted: true,
+            onOutcome: (version, failure) =>
+              reporter.outcome(versionReportItem(scriptName, version), failure),
+            onProgress,
+          }
+        );
+      } else if (resourceType === 'pages_deployment') {
+        result = await executePagesDeploymentCleanup(
+          api,
+          { projectName: scriptName, toDelete: target.pagesDeployments },
+          {
+            checkpoint: recorder,
+            audit: pagesAudit,
+            missingIsDeleted: true,
+            onOutcome,
+            onProgress,
+          }
+        );
+      } else {
+        result = await executeDeploymentCleanup(
+          api,
+          { scriptName, toDelete: target.deployments },
+          {
+            checkpoint: recorder,
+            audit: deploymentAudit,
+            missingIsDeleted: true,
+            onOutcome,
+            onProgress,
+          }
+        );
+      }
+
+      deleted += result.deleted.length;
+      result.failed.forEach(({ item, error }) =>
+        failures.push({ scriptName, id: item.id, error })
+      );
+    }
+
+    spinner.stop();
+    await finishCheckpoint(recorder);
+    await finishAudit(versionAudit);
+    await finishAudit(deploymentAudit);
+    await finishAudit(pagesAudit);
+
+    // Report results
+    if (deleted > 0) {
+      logger.success(`Successfully deleted ${deleted} ${noun}(s).`);
+    }
+
+    if (failures.length > 0) {
+      logger.error(`Failed to delete ${failures.length} ${noun}(s):`);
+      failures.forEach(({ scriptName, id, error }) => {
+        logger.error(`- ${scriptName} ${id.slice(0, 8)}...: ${error}`);
+      });
+    }
+
+    // Summary
+    logger.newline();
+    if (failures.length === 0) {
+      logger.success(chalk.green(`All remaining ${noun}s have been deleted.`));
+      reporter.finish(ExitCode.Success);
+    } else {
+      logger.warn(
+        `Completed with ${failures.length} error(s). Run "${retryFailedHint(recorder)}" to retry them.`
+      );
+      process.exit(reporter.finish(ExitCode.PartialFailure));
+    }
+  } catch (error) {
+    spinner.stop();
+
+    if (error instanceof CloudflareAPIError) {
+      logger.error(error.message);
+      if (error.statusCode === 403) {
+        logger.info(
+          'Make sure your API token has "Workers Scripts: Read" and "Workers Scripts: Edit" permissions.'
+        );
+      }
+    } else if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unknown error occurred.');
+    }
+
+    process.exit(reporter.fail(error));
+  }
+}
+
+export async function retryFailedCommand(
+  options: RetryFailedOptions
+): Promise<void> {
+  return resumeCommand(options.checkpoint ?? getLastRunPath(), {
+    onlyFailed: true,
+    dryRun: options.dryRun,
+    force: options.force,
+    iUnderstand: options.iUnderstand,
+    backupDir: options.backupDir,
+    json: options.json,
+    output: options.output,
+  });
+}
@@ -0,0 +1,133 @@
+/**
+ * Rollback command - route all traffic back to an existing version
+ */
+import chalk from 'chalk';
+import { CloudflareAPI, CloudflareAPIError } from '../lib/cloudflare-api.js';
+import { getClientConfig, resolveScriptName } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { startSpinner } from '../utils/spinner.js';
+import { ExitCode, exitCodeForError } from '../utils/exit-codes.js';
+import { findVersion, loadVersionInventory } from '../lib/inventory.js';
+import { formatTrafficSplit } from '../lib/traffic.js';
+import { confirmRollback, selectVersionToDeploy } from '../utils/prompts.js';
+
+export interface RollbackOptions {
+  message?: string;
+  dryRun?: boolean;
+  force?: boolean;
+}
+
+export async function rollbackCommand(
+  scriptNameArg: string | undefined,
+  versionIdArg: string | undefined,
+  options: RollbackOptions
+): Promise<void> {
+  const spinner = startSpinner('Fetching deployments...');
+
+  try {
+    const scriptName = resolveScriptName(scriptNameArg);
+    const clientConfig = getClientConfig();
+    const api = new CloudflareAPI(clientConfig);
+
+    const { versions, deployments } = await loadVersionInventory(
+      api,
+      scriptName,
+      {
+        onProgress: (stage) => {
+          spinner.text = `Fetching ${stage}...`;
+        },
+      }
+    );
+    spinner.stop();
+
+    if (versions.length === 0) {
+      logger.warn(`No versions found for script "${scriptName}".`);
+      process.exit(ExitCode.NothingToDo);
+    }
+
+    // Traffic split of the active deployment
+    const active = deployments[0];
+    const traffic = new Map(
+      (active?.versions ?? []).map((v) => [v.version_id, v.percentage])
+    );
+    if (active) {
+      logger.info(
+        `Active deployment ${active.id.slice(0, 8)}...: ${formatTrafficSplit(active.versions, versions)}`
+      );
+    }
+
+    // Determine which version to roll back to
+    const target = versionIdArg
+      ? findVersion(versions, versionIdArg)
+      : await selectVersionToDeploy(versions, traffic);
+
+    if (!target) {
+      logger.error(
+        `Version "${versionIdArg}" not found for script "${scriptName}".`
+      );
+      process.exit(ExitCode.NotFound);
+    }
+
+    if (traffic.get(target.id) === 100) {
+      logger.info(
+        `Version #${target.number} already serves all traffic. Nothing to roll back.`
+      );
+      process.exit(ExitCode.NothingToDo);
+    }
+
+    logger.info(`Rolling back "${scriptName}" to:`);
+    logger.printVersions([target]);
+
+    // Dry run mode
+    if (options.dryRun) {
+      logger.dryRun(
+        `Would deploy version #${target.number} to 100% of traffic. No deployment created.`
+      );
+      return;
+    }
+
+    const shouldProceed = await confirmRollback(scriptName, target, {
+      force: options.force,
+    });
+
+    if (!shouldProceed) {
+      logger.info('Rollback cancelled.');
+      return;
+    }
+
+    spinner.start('Creating deployment...');
+    const deployment = await api.createDeployment(scriptName, {
+      versions: [{ version_id: target.id, percentage: 100 }],
+      message: options.message,
+    });
+    spinner.stop();
+
+    logger.success(
+      chalk.green(
+        `Deployment ${deployment.id.slice(0, 8)}... now routes all traffic to version #${target.number}.`
+      )
+    );
+    if (active) {
+      logger.info(
+        `Versions of the previous deployment are no longer active. Use --protect-recent 2 to keep them during cleanup.`
+      );
+    }
+  } catch (error) {
+    spinner.stop();
+
+    if (error instanceof CloudflareAPIError) {
+      logger.error(error.message);
+      if (error.statusCode === 403) {
+        logger.info(
+          'Make sure your API token has "Workers Scripts: Read" and "Workers Scripts: Edit" permissions.'
+        );
+      }
+    } else if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unknown error occurred.');
+    }
+
+    process.exit(exitCodeForError(error));
+  }
+}
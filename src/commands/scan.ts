@@ -0,0 +1,135 @@
+/**
+ * Scan command - summarize deletable versions across every Worker script in the account
+ */
+import chalk from 'chalk';
+import { CloudflareAPI, CloudflareAPIError } from '../lib/cloudflare-api.js';
+import {
+  getClientConfig,
+  getProtectionRules,
+  type ProtectionRuleOptions,
+} from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { startSpinner } from '../utils/spinner.js';
+import { ExitCode, exitCodeForError } from '../utils/exit-codes.js';
+import {
+  filterScripts,
+  scanScripts,
+  type ScriptFilter,
+} from '../lib/scan.js';
+
+export interface ScanOptions extends ScriptFilter, ProtectionRuleOptions {
+  json?: boolean;
+  protectRecent?: number;
+}
+
+export async function scanCommand(options: ScanOptions): Promise<void> {
+  const spinner = startSpinner('Fetching scripts...');
+
+  try {
+    const clientConfig = getClientConfig();
+    const api = new CloudflareAPI(clientConfig);
+
+    const { items: allScripts } = await api.listScripts();
+    const scripts = filterScripts(allScripts, options);
+
+    if (scripts.length === 0) {
+      spinner.stop();
+      logger.warn('No Worker scripts matched.');
+      return;
+    }
+
+    const results = await scanScripts(
+      api,
+      scripts.map((s) => s.id),
+      {
+        recentDeployments: options.protectRecent,
+        rules: getProtectionRules(options),
+        onScript: (scriptName, index, total) => {
+          spinner.text = `Scanning scripts... (${index + 1}/${total}) - ${scriptName}`;
+        },
+      }
+    );
+    spinner.stop();
+
+    // Scripts that could not be scanned make the result incomplete
+    const scanFailures = results.filter((r) => r.error !== undefined).length;
+
+    // JSON output mode
+    if (options.json) {
+      console.log(
+        JSON.stringify(
+          results.map(({ scriptName, inventory, error }) =>
+            inventory
+              ? {
+                  scriptName,
+                  versions: inventory.totalCount,
+                  protected: [...inventory.protectedVersions.keys()],
+                  deletable: inventory.deletable.map((v) => v.id),
+                }
+              : { scriptName, error }
+          ),
+          null,
+          2
+        )
+      );
+      if (scanFailures > 0) {
+        process.exit(ExitCode.PartialFailure);
+      }
+      return;
+    }
+
+    // Human-readable output
+    console.log(
+      chalk.bold(`\nScanned ${results.length} of ${allScripts.length} script(s):`)
+    );
+
+    logger.printTable(
+      ['Script', 'Versions', 'Protected', 'Deletable', 'Status'],
+      results.map(({ scriptName, inventory, error }) =>
+        inventory
+          ? [
+              scriptName,
+              String(inventory.totalCount),
+              String(inventory.protectedVersions.size),
+              String(inventory.deletable.length),
+              inventory.truncated ? 'truncated' : 'ok',
+            ]
+          : [scriptName, '-', '-', '-', `error: ${error}`]
+      )
+    );
+
+    const deletableCount = results.reduce(
+      (sum, r) => sum + (r.inventory?.deletable.length ?? 0),
+      0
+    );
+    if (deletableCount > 0) {
+      logger.info(
+        `${deletableCount} version(s) can be deleted. Use "${chalk.cyan('cwc versions delete --all-scripts --all')}" to remove them.`
+      );
+    } else {
+      logger.info('Only protected versions exist. Nothing to delete.');
+    }
+
+    if (scanFailures > 0) {
+      logger.warn(`${scanFailures} script(s) could not be scanned.`);
+      process.exit(ExitCode.PartialFailure);
+    }
+  } catch (error) {
+    spinner.stop();
+
+    if (error instanceof CloudflareAPIError) {
+      logger.error(error.message);
+      if (error.statusCode === 403) {
+        logger.info(
+          'Make sure your API token has "Workers Scripts: Read" permission.'
+        );
+      }
+    } else if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unknown error occurred.');
+    }
+
+    process.exit(exitCodeForError(error));
+  }
+}
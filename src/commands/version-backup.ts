@@ -0,0 +1,47 @@
+/**
+ * Shared pre-deletion backup reporting for the commands that delete versions
+ */
+import type { Ora } from 'ora';
+import { logger } from '../utils/logger.js';
+import type { VersionExecuteOptions } from '../lib/cleanup.js';
+
+/**
+ * Cleanup options that back up versions before deletion
+ * Progress is shown on the deletion spinner, and the result is reported
+ * before the first version is deleted. Versions whose backup failed are
+ * not deleted.
+ */
+export function backupOptions(
+  scriptName: string,
+  backupDir: string | undefined,
+  spinner: Ora
+): VersionExecuteOptions {
+  if (!backupDir) {
+    return {};
+  }
+
+  return {
+    backupDir,
+    onBackupProgress: (completed, total, id) => {
+      spinner.text = `Backing up versions of ${scriptName}... (${completed}/${total}) - ${id.slice(0, 8)}...`;
+    },
+    onBackup: ({ saved, failed }) => {
+      spinner.stop();
+      const withoutContent = saved.filter((b) => !b.contentSaved).length;
+      logger.success(`Backed up ${saved.length} version(s) of "${scriptName}" to ${backupDir}.`);
+      if (withoutContent > 0) {
+        logger.warn(
+          `Script content was not available for ${withoutContent} version(s); metadata and bindings were saved.`
+        );
+      }
+
+      if (failed.length > 0) {
+        logger.error(`Failed to back up ${failed.length} version(s); they will not be deleted:`);
+        failed.forEach(({ id, error }) => {
+          logger.error(`- ${id.slice(0, 8)}...: ${error}`);
+        });
+      }
+      spinner.start(`Deleting versions of ${scriptName}...`);
+    },
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Shared version selection for the versions delete and plan commands
+ */
+import { logger } from '../utils/logger.js';
+import { selectVersionsToDelete } from '../utils/prompts.js';
+import {
+  hasSelectionCriteria,
+  type SelectionCriteria,
+} from '../lib/selection.js';
+import { selectCleanupVersions } from '../lib/cleanup.js';
+import type { Version } from '../lib/cloudflare-api.js';
+import type { VersionInventory } from '../lib/inventory.js';
+import type { ProtectionRuleOptions } from '../config/index.js';
+
+export interface VersionSelectionOptions extends ProtectionRuleOptions {
+  all?: boolean;
+  keepLast?: number;
+  olderThan?: number;
+  author?: string;
+  source?: string;
+  tagPattern?: string;
+}
+
+export interface VersionSelection {
+  toDelete: Version[];
+  /** True when the selection came from retention-policy flags */
+  byPolicy: boolean;
+}
+
+/**
+ * Build retention-policy criteria from command options
+ */
+export function selectionCriteriaFrom(
+  options: VersionSelectionOptions
+): SelectionCriteria {
+  return {
+    keepLast: options.keepLast,
+    olderThan: options.olderThan,
+    author: options.author,
+    source: options.source,
+    tagPattern: options.tagPattern,
+  };
+}
+
+/**
+ * Determine which versions to delete: by retention policy, --all, or interactively
+ * Protected versions are never returned, whatever the selection path.
+ */
+export async function chooseVersionsToDelete(
+  inventory: VersionInventory,
+  options: VersionSelectionOptions
+): Promise<VersionSelection> {
+  const { versions, protectedVersions } = inventory;
+
+  const criteria = selectionCriteriaFrom(options);
+  const byPolicy = hasSelectionCriteria(criteria);
+
+  let toDelete: Version[];
+  if (byPolicy) {
+    toDelete = selectCleanupVersions(inventory, criteria);
+    logger.info(
+      `Selected ${toDelete.length} deletable version(s) matching the retention policy.`
+    );
+  } else if (options.all) {
+    toDelete = selectCleanupVersions(inventory, { all: true });
+    logger.info(`Selected all ${toDelete.length} deletable version(s).`);
+  } else {
+    toDelete = await selectVersionsToDelete(versions, protectedVersions);
+  }
+
+  return {
+    toDelete: toDelete.filter((v) => !protectedVersions.has(v.id)),
+    byPolicy,
+  };
+}
@@ -0,0 +1,333 @@
+/**
+ * Versions Delete (--all-scripts) - remove versions across every Worker script in the account
+ */
+import chalk from 'chalk';
+import { CloudflareAPI, CloudflareAPIError } from '../lib/cloudflare-api.js';
+import {
+  getClientConfig,
+  getProtectionRules,
+  getSafetyRules,
+} from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { startSpinner } from '../utils/spinner.js';
+import { versionAuditRecorder } from '../lib/audit.js';
+import {
+  confirmVersionDeletion,
+  confirmDeleteAllVersions,
+  confirmTypedDeletion,
+} from '../utils/prompts.js';
+import { safetyGuardFor } from '../lib/safety.js';
+import {
+  filterScripts,
+  scanScripts,
+  type ScriptFilter,
+} from '../lib/scan.js';
+import { hasSelectionCriteria, selectVersions } from '../lib/selection.js';
+import {
+  selectionCriteriaFrom,
+  type VersionSelectionOptions,
+} from './version-selection.js';
+import { backupOptions } from './version-backup.js';
+import { executeVersionCleanup } from '../lib/cleanup.js';
+import { ExitCode } from '../utils/exit-codes.js';
+import {
+  DeleteReporter,
+  machineOutputProblem,
+  outputFormatFrom,
+  versionReportItem,
+  type OutputFormat,
+} from './delete-report.js';
+import type { Version } from '../lib/cloudflare-api.js';
+import { createCheckpoint } from '../lib/checkpoint.js';
+import {
+  finishAudit,
+  finishCheckpoint,
+  retryFailedHint,
+  startCheckpoint,
+} from './checkpoint.js';
+
+export interface VersionsDeleteAllScriptsOptions
+  extends VersionSelectionOptions,
+    ScriptFilter {
+  dryRun?: boolean;
+  force?: boolean;
+  /** Lets --force skip typed confirmation */
+  iUnderstand?: boolean;
+  protectRecent?: number;
+  backupDir?: string;
+  checkpoint?: string;
+  json?: boolean;
+  output?: OutputFormat;
+}
+
+export async function versionsDeleteAllScriptsCommand(
+  options: VersionsDeleteAllScriptsOptions
+): Promise<void> {
+  const criteria = selectionCriteriaFrom(options);
+  const byPolicy = hasSelectionCriteria(criteria);
+
+  // Interactive selection across every script is not supported
+  if (!options.all && !byPolicy) {
+    logger.error(
+      '--all-scripts requires --all or a retention policy option (e.g. --keep-last, --older-than).'
+    );
+    process.exit(ExitCode.Usage);
+  }
+
+  const reporter = new DeleteReporter(
+    outputFormatFrom(options),
+    'version',
+    options.dryRun
+  );
+  const problem = machineOutputProblem(reporter, {
+    dryRun: options.dryRun,
+    force: options.force,
+    interactiveSelection: false,
+  });
+  if (problem) {
+    logger.error(problem);
+    process.exit(ExitCode.Usage);
+  }
+
+  const spinner = startSpinner('Fetching scripts...');
+
+  try {
+    const clientConfig = getClientConfig();
+    const api = new CloudflareAPI(clientConfig);
+    const rules = getProtectionRules(options);
+
+    const { items: allScripts } = await api.listScripts();
+    const scripts = filterScripts(allScripts, options);
+
+    if (scripts.length === 0) {
+      spinner.stop();
+      logger.warn('No Worker scripts matched.');
+      process.exit(reporter.finish(ExitCode.NothingToDo));
+    }
+
+    const results = await scanScripts(
+      api,
+      scripts.map((s) => s.id),
+      {
+        recentDeployments: options.protectRecent,
+        rules,
+        onScript: (scriptName, index, total) => {
+          spinner.text = `Scanning scripts... (${index + 1}/${total}) - ${scriptName}`;
+        },
+      }
+    );
+    spinner.stop();
+
+    // Determine which versions to delete in each script
+    const targets = new Map<string, Version[]>();
+    for (const { scriptName, inventory, error } of results) {
+      if (error !== undefined) {
+        reporter.scanFailure(scriptName, error);
+      }
+      if (inventory) {
+        const selected = byPolicy
+          ? selectVersions(inventory.versions, inventory.deletable, criteria)
+          : inventory.deletable;
+        targets.set(scriptName, selected);
+
+        inventory.versions
+          .filter((v) => inventory.protectedVersions.has(v.id))
+          .forEach((v) =>
+            reporter.skipped(
+              versionReportItem(scriptName, v),
+              inventory.protectedVersions.get(v.id) ?? 'protected'
+            )
+          );
+        reporter.selected(
+          selected.map((v) => versionReportItem(scriptName, v))
+        );
+      }
+    }
+
+    logger.newline();
+    logger.info(
+      chalk.bold(`Scanned ${results.length} of ${allScripts.length} script(s):`)
+    );
+    logger.printTable(
+      ['Script', 'Versions', 'Protected', 'Selected', 'Status'],
+      results.map(({ scriptName, inventory, error }) =>
+        inventory
+          ? [
+              scriptName,
+              String(inventory.totalCount),
+              String(inventory.protectedVersions.size),
+              String(targets.get(scriptName)?.length ?? 0),
+              inventory.truncated ? 'truncated' : 'ok',
+            ]
+          : [scriptName, '-', '-', '-', `error: ${error}`]
+      )
+    );
+
+    // Scripts that could not be scanned make the run incomplete
+    const scanFailures = results.filter((r) => r.error !== undefined).length;
+    if (scanFailures > 0) {
+      logger.warn(
+        `${scanFailures} script(s) could not be scanned; their versions were not considered.`
+      );
+    }
+
+    // A pin usually names one script's version, so only flag those matching none
+    if (scanFailures === 0) {
+      rules.pinned
+        .filter((pin) =>
+          results.every(({ inventory }) =>
+            inventory?.unmatchedPins.includes(pin)
+          )
+        )
+        .forEach((pin) =>
+          logger.warn(`Pin "${pin}" matches no version in any scanned script.`)
+        );
+    }
+
+    const total = [...targets.values()].reduce((sum, v) => sum + v.length, 0);
+    if (total === 0) {
+      logger.info('No versions selected. Exiting.');
+      process.exit(
+        reporter.finish(
+          scanFailures > 0 ? ExitCode.PartialFailure : ExitCode.NothingToDo
+        )
+      );
+    }
+
+    logger.warn(
+      chalk.yellow('Deleting versions will permanently remove their preview URLs!')
+    );
+
+    // Dry run mode
+    if (options.dryRun) {
+      logger.dryRun(
+        `Total: ${total} version(s) across ${targets.size} script(s). No actual deletion performed.`
+      );
+      if (scanFailures > 0) {
+        process.exit(reporter.finish(ExitCode.PartialFailure));
+      }
+      reporter.finish(ExitCode.Success);
+      return;
+    }
+
+    // Confirm deletion; large or protected-script deletions must be typed out
+    const guard = safetyGuardFor(
+      [...targets].filter(([, v]) => v.length > 0).map(([name]) => name),
+      total,
+      getSafetyRules()
+    );
+    const shouldProceed = guard
+      ? await confirmTypedDeletion(guard, options)
+      : options.all && !byPolicy
+        ? await confirmDeleteAllVersions(total, { force: options.force })
+        : await confirmVersionDeletion(total, { force: options.force });
+
+    if (!shouldProceed) {
+      logger.info('Deletion cancelled.');
+      return;
+    }
+
+    // Record progress so an interrupted run can be resumed
+    const recorder = await startCheckpoint(
+      options.checkpoint,
+      createCheckpoint(
+        clientConfig.accountId,
+        'version',
+        [...targets].flatMap(([scriptName, selected]) =>
+          selected.map((v) => ({ scriptName, id: v.id }))
+        ),
+        {
+          protectRecent: options.protectRecent,
+          protection: rules,
+          backupDir: options.backupDir,
+        }
+      )
+    );
+
+    // Execute deletion script by script
+    logger.newline();
+    spinner.start('Deleting versions...');
+    const audit = versionAuditRecorder({ accountId: clientConfig.accountId });
+    const summary: string[][] = [];
+    const failures: Array<{ scriptName: string; id: string; error: string }> = [];
+
+    for (const [scriptName, selected] of targets) {
+      if (selected.length === 0) {
+        continue;
+      }
+
+      spinner.text = `Deleting versions of ${scriptName}...`;
+      const result = await executeVersionCleanup(
+        api,
+        { scriptName, toDelete: selected },
+        {
+          ...backupOptions(scriptName, options.backupDir, spinner),
+          checkpoint: recorder,
+          audit,
+          onOutcome: (version, failure) =>
+            reporter.outcome(versionReportItem(scriptName, version), failure),
+          onProgress: (completed, count, id) => {
+            spinner.text = `Deleting versions of ${scriptName}... (${completed}/${count}) - ${id.slice(0, 8)}...`;
+          },
+        }
+      );
+
+      summary.push([
+        scriptName,
+        String(result.deleted.length),
+        String(result.failed.length),
+      ]);
+      result.failed.forEach(({ item, error }) =>
+        failures.push({ scriptName, id: item.id, error })
+      );
+    }
+
+    spinner.stop();
+    await finishCheckpoint(recorder);
+    await finishAudit(audit);
+
+    // Report results
+    logger.printTable(['Script', 'Deleted', 'Failed'], summary);
+
+    if (failures.length > 0) {
+      logger.error(`Failed to delete ${failures.length} version(s):`);
+      failures.forEach(({ scriptName, id, error }) => {
+        logger.error(`- ${scriptName} ${id.slice(0, 8)}...: ${error}`);
+      });
+    }
+
+    // Summary
+    logger.newline();
+    if (failures.length === 0 && scanFailures > 0) {
+      logger.warn(
+        `All selected versions have been deleted, but ${scanFailures} script(s) could not be scanned.`
+      );
+      process.exit(reporter.finish(ExitCode.PartialFailure));
+    } else if (failures.length === 0) {
+      logger.success(chalk.green('All selected versions have been deleted.'));
+      reporter.finish(ExitCode.Success);
+    } else {
+      logger.warn(
+        `Completed with ${failures.length} error(s). Run "${retryFailedHint(recorder)}" to retry them.`
+      );
+      process.exit(reporter.finish(ExitCode.PartialFailure));
+    }
+  } catch (error) {
+    spinner.stop();
+
+    if (error instanceof CloudflareAPIError) {
+      logger.error(error.message);
+      if (error.statusCode === 403) {
+        logger.info(
+          'Make sure your API token has "Workers Scripts: Read" and "Workers Scripts: Edit" permissions.'
+        );
+      }
+    } else if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unknown error occurred.');
+    }
+
+    process.exit(reporter.fail(error));
+  }
+}
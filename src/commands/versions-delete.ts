@@ -1,57 +1,146 @@
 /**
  * Versions Delete command - remove old versions and their preview URLs
  */
-import ora from 'ora';
 import chalk from 'chalk';
 import { CloudflareAPI, CloudflareAPIError } from '../lib/cloudflare-api.js';
-import { getEnv } from '../config/index.js';
+import {
+  getClientConfig,
+  getProtectionRules,
+  getSafetyRules,
+  resolveScriptName,
+} from '../config/index.js';
 import { logger } from '../utils/logger.js';
+import { startSpinner } from '../utils/spinner.js';
+import { versionAuditRecorder } from '../lib/audit.js';
 import {
-  selectVersionsToDelete,
   confirmVersionDeletion,
   confirmDeleteAllVersions,
+  confirmTypedDeletion,
 } from '../utils/prompts.js';
-import type { Version } from '../lib/cloudflare-api.js';
+import { safetyGuardFor } from '../lib/safety.js';
+import { loadVersionInventory } from '../lib/inventory.js';
+import { backupOptions } from './version-backup.js';
+import { executeVersionCleanup } from '../lib/cleanup.js';
+import { createCheckpoint } from '../lib/checkpoint.js';
+import {
+  finishAudit,
+  finishCheckpoint,
+  retryFailedHint,
+  startCheckpoint,
+} from './checkpoint.js';
+import { resumeCommand } from './resume.js';
+import {
+  chooseVersionsToDelete,
+  selectionCriteriaFrom,
+} from './version-selection.js';
+import { hasSelectionCriteria } from '../lib/selection.js';
+import { ExitCode } from '../utils/exit-codes.js';
+import {
+  DeleteReporter,
+  machineOutputProblem,
+  outputFormatFrom,
+  versionReportItem,
+} from './delete-report.js';
+import {
+  versionsDeleteAllScriptsCommand,
+  type VersionsDeleteAllScriptsOptions,
+} from './versions-delete-all-scripts.js';
 
-export interface VersionsDeleteOptions {
-  dryRun?: boolean;
-  force?: boolean;
-  all?: boolean;
+export interface VersionsDeleteOptions extends VersionsDeleteAllScriptsOptions {
+  allScripts?: boolean;
+  resume?: string;
 }
 
 export async function versionsDeleteCommand(
-  scriptName: string,
+  scriptNameArg: string | undefined,
   options: VersionsDeleteOptions
 ): Promise<void> {
-  const spinner = ora('Fetching versions...').start();
+  if (options.resume) {
+    return resumeCommand(options.resume, {
+      resourceType: 'version',
+      dryRun: options.dryRun,
+      force: options.force,
+      iUnderstand: options.iUnderstand,
+      backupDir: options.backupDir,
+      json: options.json,
+      output: options.output,
+    });
+  }
+
+  if (options.allScripts) {
+    return versionsDeleteAllScriptsCommand(options);
+  }
+
+  const reporter = new DeleteReporter(
+    outputFormatFrom(options),
+    'version',
+    options.dryRun
+  );
+  const problem = machineOutputProblem(reporter, {
+    dryRun: options.dryRun,
+    force: options.force,
+    interactiveSelection:
+      !options.all && !hasSelectionCriteria(selectionCriteriaFrom(options)),
+  });
+  if (problem) {
+    logger.error(problem);
+    process.exit(ExitCode.Usage);
+  }
+
+  const spinner = startSpinner('Fetching deployments...');
 
   try {
-    const env = getEnv();
-    const api = new CloudflareAPI({
-      accountId: env.CLOUDFLARE_ACCOUNT_ID,
-      apiToken: env.CLOUDFLARE_API_TOKEN,
-    });
+    const scriptName = resolveScriptName(scriptNameArg);
+    const clientConfig = getClientConfig();
+    const api = new CloudflareAPI(clientConfig);
+    const rules = getProtectionRules(options);
 
-    const versions = await api.listVersions(scriptName);
+    const inventory = await loadVersionInventory(api, scriptName, {
+      recentDeployments: options.protectRecent,
+      rules,
+      onProgress: (stage) => {
+        spinner.text = `Fetching ${stage}...`;
+      },
+    });
     spinner.stop();
 
+    const { versions, totalCount, truncated, deletable, protectedVersions } =
+      inventory;
+
     if (versions.length === 0) {
       logger.warn(`No versions found for script "${scriptName}".`);
-      return;
+      process.exit(reporter.finish(ExitCode.NothingToDo));
     }
 
-    if (versions.length === 1) {
+    versions
+      .filter((v) => protectedVersions.has(v.id))
+      .forEach((v) =>
+        reporter.skipped(
+          versionReportItem(scriptName, v),
+          protectedVersions.get(v.id) ?? 'protected'
+        )
+      );
+
+    if (truncated) {
       logger.warn(
-        'Only the active version exists. Cannot delete the active version.'
+        `Only the first ${versions.length} of ${totalCount} version(s) were loaded (item limit reached).`
       );
-      return;
     }
 
-    // Exclude the first (active) version
-    const deletableVersions = versions.slice(1);
+    for (const pin of inventory.unmatchedPins) {
+      logger.warn(`Pin "${pin}" matches no version of "${scriptName}".`);
+    }
+
+    // Every version referenced by the active (and protected) deployments is excluded
+    if (deletable.length === 0) {
+      logger.warn(
+        'Only protected versions exist (serving traffic, pinned or matching a protection rule). Nothing can be deleted.'
+      );
+      process.exit(reporter.finish(ExitCode.NothingToDo));
+    }
 
     logger.info(
-      `Found ${versions.length} version(s), ${deletableVersions.length} can be deleted.`
+      `Found ${totalCount} version(s), ${deletable.length} can be deleted (${versions.length - deletable.length} protected).`
     );
     logger.warn(
       chalk.yellow('Deleting versions will permanently remove their preview URLs!')
@@ -59,19 +148,18 @@ export async function versionsDeleteCommand(
     logger.newline();
 
     // Determine which versions to delete
-    let toDelete: Version[];
-    if (options.all) {
-      toDelete = deletableVersions;
-      logger.info(`Selected all ${toDelete.length} deletable version(s).`);
-    } else {
-      toDelete = await selectVersionsToDelete(versions);
-    }
+    const { toDelete, byPolicy } = await chooseVersionsToDelete(
+      inventory,
+      options
+    );
 
     if (toDelete.length === 0) {
       logger.info('No versions selected. Exiting.');
-      return;
+      process.exit(reporter.finish(ExitCode.NothingToDo));
     }
 
+    reporter.selected(toDelete.map((v) => versionReportItem(scriptName, v)));
+
     // Dry run mode
     if (options.dryRun) {
       logger.dryRun('The following versions would be deleted:');
@@ -79,44 +167,76 @@ export async function versionsDeleteCommand(
       logger.dryRun(
         `Total: ${toDelete.length} version(s). No actual deletion performed.`
       );
+      reporter.finish(ExitCode.Success);
       return;
     }
 
-    // Confirm deletion
-    const shouldProceed = options.all
-      ? await confirmDeleteAllVersions(toDelete.length, { force: options.force })
-      : await confirmVersionDeletion(toDelete.length, { force: options.force });
+    // Confirm deletion; large or protected-script deletions must be typed out
+    const guard = safetyGuardFor(
+      [scriptName],
+      toDelete.length,
+      getSafetyRules()
+    );
+    const shouldProceed = guard
+      ? await confirmTypedDeletion(guard, options)
+      : options.all && !byPolicy
+        ? await confirmDeleteAllVersions(toDelete.length, { force: options.force })
+        : await confirmVersionDeletion(toDelete.length, { force: options.force });
 
     if (!shouldProceed) {
       logger.info('Deletion cancelled.');
       return;
     }
 
-    // Execute deletion
-    logger.newline();
-    const deleteSpinner = ora('Deleting versions...').start();
+    // Record progress so an interrupted run can be resumed
+    const recorder = await startCheckpoint(
+      options.checkpoint,
+      createCheckpoint(
+        clientConfig.accountId,
+        'version',
+        toDelete.map((v) => ({ scriptName, id: v.id })),
+        {
+          protectRecent: options.protectRecent,
+          protection: rules,
+          backupDir: options.backupDir,
+        }
+      )
+    );
 
-    const result = await api.deleteVersions(
-      scriptName,
-      toDelete.map((v) => v.id),
-      (completed, total, id) => {
-        deleteSpinner.text = `Deleting versions... (${completed}/${total}) - ${id.slice(0, 8)}...`;
+    // Back up, delete and record each outcome as it completes
+    logger.newline();
+    spinner.start('Deleting versions...');
+    const audit = versionAuditRecorder({ accountId: clientConfig.accountId });
+    const result = await executeVersionCleanup(
+      api,
+      { scriptName, toDelete },
+      {
+        ...backupOptions(scriptName, options.backupDir, spinner),
+        checkpoint: recorder,
+        audit,
+        onOutcome: (version, failure) =>
+          reporter.outcome(versionReportItem(scriptName, version), failure),
+        onProgress: (completed, total, id) => {
+          spinner.text = `Deleting versions... (${completed}/${total}) - ${id.slice(0, 8)}...`;
+        },
       }
     );
 
-    deleteSpinner.stop();
+    spinner.stop();
+    await finishCheckpoint(recorder);
+    await finishAudit(audit);
 
     // Report results
-    if (result.success.length > 0) {
+    if (result.deleted.length > 0) {
       logger.success(
-        `Successfully deleted ${result.success.length} version(s) and their preview URLs.`
+        `Successfully deleted ${result.deleted.length} version(s) and their preview URLs.`
       );
     }
 
     if (result.failed.length > 0) {
       logger.error(`Failed to delete ${result.failed.length} version(s):`);
-      result.failed.forEach(({ id, error }) => {
-        logger.error(`- ${id.slice(0, 8)}...: ${error}`);
+      result.failed.forEach(({ item, error }) => {
+        logger.error(`- ${item.id.slice(0, 8)}...: ${error}`);
       });
     }
 
@@ -124,11 +244,12 @@ export async function versionsDeleteCommand(
     logger.newline();
     if (result.failed.length === 0) {
       logger.success(chalk.green('All selected versions have been deleted.'));
+      reporter.finish(ExitCode.Success);
     } else {
       logger.warn(
-        `Completed with ${result.failed.length} error(s). Please retry failed deletions.`
+        `Completed with ${result.failed.length} error(s). Run "${retryFailedHint(recorder)}" to retry them.`
       );
-      process.exit(1);
+      process.exit(reporter.finish(ExitCode.PartialFailure));
     }
   } catch (error) {
     spinner.stop();
@@ -146,6 +267,6 @@ export async function versionsDeleteCommand(
       logger.error('An unknown error occurred.');
     }
 
-    process.exit(1);
+    process.exit(reporter.fail(error));
   }
 }
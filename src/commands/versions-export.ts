@@ -0,0 +1,111 @@
+/**
+ * Versions Export command - save version detail and content without deleting anything
+ */
+import chalk from 'chalk';
+import { CloudflareAPI, CloudflareAPIError } from '../lib/cloudflare-api.js';
+import { getClientConfig, resolveScriptName } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { startSpinner } from '../utils/spinner.js';
+import { ExitCode, exitCodeForError } from '../utils/exit-codes.js';
+import { backupVersions } from '../lib/backup.js';
+import { findVersion } from '../lib/inventory.js';
+
+export interface VersionsExportOptions {
+  outDir: string;
+  versionId?: string[];
+}
+
+export async function versionsExportCommand(
+  scriptNameArg: string | undefined,
+  options: VersionsExportOptions
+): Promise<void> {
+  const spinner = startSpinner('Fetching versions...');
+
+  try {
+    const scriptName = resolveScriptName(scriptNameArg);
+    const clientConfig = getClientConfig();
+    const api = new CloudflareAPI(clientConfig);
+
+    const { items: allVersions, totalCount, truncated } =
+      await api.listVersions(scriptName);
+
+    // Requested IDs may be prefixes; an ambiguous prefix throws
+    const requested = options.versionId;
+    const missing = requested
+      ? requested.filter((id) => !findVersion(allVersions, id))
+      : [];
+    const versions = requested
+      ? allVersions.filter((v) =>
+          requested.some((id) => findVersion(allVersions, id) === v)
+        )
+      : allVersions;
+
+    if (versions.length === 0) {
+      spinner.stop();
+      logger.warn(`No versions found for script "${scriptName}".`);
+      return;
+    }
+
+    const { saved, failed } = await backupVersions(
+      api,
+      scriptName,
+      versions,
+      options.outDir,
+      (completed, total, id) => {
+        spinner.text = `Exporting versions... (${completed}/${total}) - ${id.slice(0, 8)}...`;
+      }
+    );
+    spinner.stop();
+
+    if (truncated) {
+      logger.warn(
+        `Only the first ${allVersions.length} of ${totalCount} version(s) were loaded (item limit reached).`
+      );
+    }
+
+    if (missing.length > 0) {
+      logger.warn(
+        `${missing.length} requested version(s) were not found: ${missing.join(', ')}`
+      );
+    }
+
+    // Report results
+    if (saved.length > 0) {
+      logger.success(
+        `Exported ${saved.length} version(s) to ${chalk.cyan(options.outDir)}.`
+      );
+    }
+
+    const withoutContent = saved.filter((b) => !b.contentSaved).length;
+    if (withoutContent > 0) {
+      logger.warn(
+        `Script content was not available for ${withoutContent} version(s); metadata and bindings were saved.`
+      );
+    }
+
+    if (failed.length > 0) {
+      logger.error(`Failed to export ${failed.length} version(s):`);
+      failed.forEach(({ id, error }) => {
+        logger.error(`- ${id.slice(0, 8)}...: ${error}`);
+      });
+      process.exit(ExitCode.PartialFailure);
+    }
+  } catch (error) {
+    spinner.stop();
+
+    if (error instanceof CloudflareAPIError) {
+      logger.error(error.message);
+      if (error.statusCode === 403) {
+        logger.info(
+          'Make sure your API token has "Workers Scripts: Read" permission.'
+        );
+      }
+    } else if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unknown error occurred.');
+    }
+
+    process.exit(exitCodeForError(error));
+  }
+}
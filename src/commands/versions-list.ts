@@ -1,32 +1,126 @@
 /**
  * Versions List command - displays all versions for a Worker script
  */
-import ora from 'ora';
 import chalk from 'chalk';
 import { CloudflareAPI, CloudflareAPIError } from '../lib/cloudflare-api.js';
-import { getEnv } from '../config/index.js';
+import {
+  getClientConfig,
+  getProtectionRules,
+  resolveScriptName,
+  type ProtectionRuleOptions,
+} from '../config/index.js';
 import { logger } from '../utils/logger.js';
+import { startSpinner } from '../utils/spinner.js';
+import { ExitCode, exitCodeForError } from '../utils/exit-codes.js';
+import { loadVersionInventory } from '../lib/inventory.js';
+import { renderList, sortItems } from '../utils/format.js';
+import { previewUrlsFor } from '../lib/previews.js';
+import {
+  deploymentReferences,
+  formatDeploymentReferences,
+} from '../lib/traffic.js';
+import {
+  DEFAULT_VERSION_COLUMNS,
+  resolveListOutput,
+  VERSION_COLUMNS,
+  type ListOutputOptions,
+  type VersionRow,
+} from './list-columns.js';
 
-export interface VersionsListOptions {
-  json?: boolean;
+export interface VersionsListOptions
+  extends ListOutputOptions,
+    ProtectionRuleOptions {
+  protectRecent?: number;
 }
 
 export async function versionsListCommand(
-  scriptName: string,
+  scriptNameArg: string | undefined,
   options: VersionsListOptions
 ): Promise<void> {
-  const spinner = ora('Fetching versions...').start();
+  let output;
+  try {
+    output = resolveListOutput(
+      options,
+      VERSION_COLUMNS,
+      DEFAULT_VERSION_COLUMNS
+    );
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : 'Unknown error');
+    process.exit(ExitCode.Usage);
+  }
+
+  // Keep stdout clean for the rendered list
+  if (output) {
+    logger.redirectToStderr();
+  }
+
+  const spinner = startSpinner('Fetching deployments...');
 
   try {
-    const env = getEnv();
-    const api = new CloudflareAPI({
-      accountId: env.CLOUDFLARE_ACCOUNT_ID,
-      apiToken: env.CLOUDFLARE_API_TOKEN,
+    const scriptName = resolveScriptName(scriptNameArg);
+    const clientConfig = getClientConfig();
+    const api = new CloudflareAPI(clientConfig);
+
+    const {
+      deployments,
+      versions,
+      totalCount,
+      truncated,
+      protectedVersions,
+      deletable,
+    } = await loadVersionInventory(api, scriptName, {
+      recentDeployments: options.protectRecent,
+      rules: getProtectionRules(options),
+      onProgress: (stage) => {
+        spinner.text = `Fetching ${stage}...`;
+      },
     });
 
-    const versions = await api.listVersions(scriptName);
+    // Preview URLs need the account's workers.dev subdomain; list without them if it cannot be read
+    spinner.text = 'Fetching workers.dev subdomain...';
+    const subdomain = await api.getWorkersSubdomain().catch((error) => {
+      logger.debug(
+        `Could not resolve the workers.dev subdomain: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      return undefined;
+    });
     spinner.stop();
 
+    const references = deploymentReferences(deployments);
+    const previewUrls = (version: (typeof versions)[number]) =>
+      subdomain ? previewUrlsFor(scriptName, subdomain, version) : [];
+    const versionPreviewUrl = (version: (typeof versions)[number]) =>
+      previewUrls(version).find((u) => u.kind === 'version')?.url;
+
+    // Formatted output mode
+    if (output) {
+      if (truncated) {
+        logger.warn(
+          `Only the first ${versions.length} of ${totalCount} version(s) were loaded (item limit reached).`
+        );
+      }
+      const rows: VersionRow[] = versions.map((version) => {
+        const referencedBy = references.get(version.id) ?? [];
+        const urls = previewUrls(version);
+        return {
+          version,
+          traffic: referencedBy.find((r) => r.active)?.percentage ?? 0,
+          protectedReason: protectedVersions.get(version.id),
+          deployments: referencedBy,
+          previewUrl: urls.find((u) => u.kind === 'version')?.url,
+          aliasUrl: urls.find((u) => u.kind === 'alias')?.url,
+        };
+      });
+      console.log(
+        renderList(
+          output.format,
+          output.columns,
+          options.sort ? sortItems(rows, VERSION_COLUMNS, options.sort) : rows
+        )
+      );
+      return;
+    }
+
     if (versions.length === 0) {
       logger.warn(`No versions found for script "${scriptName}".`);
       return;
@@ -34,23 +128,45 @@ export async function versionsListCommand(
 
     // JSON output mode
     if (options.json) {
-      console.log(JSON.stringify(versions, null, 2));
+      console.log(
+        JSON.stringify(
+          versions.map((v) => ({ ...v, preview_url: versionPreviewUrl(v) })),
+          null,
+          2
+        )
+      );
       return;
     }
 
+    if (truncated) {
+      logger.warn(
+        `Only the first ${versions.length} of ${totalCount} version(s) were loaded (item limit reached).`
+      );
+    }
+
     // Human-readable output
     console.log(
-      chalk.bold(`\nVersions for "${scriptName}" (${versions.length} total):\n`)
+      chalk.bold(`\nVersions for "${scriptName}" (${totalCount} total):\n`)
     );
 
     logger.printVersions(
-      versions.map((v, index) => ({
+      versions.map((v) => ({
         ...v,
-        isActive: index === 0,
+        protectedReason: protectedVersions.get(v.id),
+        deployments: references.has(v.id)
+          ? formatDeploymentReferences(references.get(v.id) ?? [])
+          : undefined,
+        previewUrls: previewUrls(v),
       }))
     );
 
-    const deletableCount = versions.length - 1;
+    if (!subdomain) {
+      logger.warn(
+        'Preview URLs are not shown because the workers.dev subdomain could not be read.'
+      );
+    }
+
+    const deletableCount = deletable.length;
     if (deletableCount > 0) {
       logger.info(
         `${deletableCount} version(s) can be deleted. Use "${chalk.cyan(`cwc versions delete ${scriptName}`)}" to remove them.`
@@ -59,7 +175,7 @@ export async function versionsListCommand(
         chalk.yellow('Deleting versions will permanently remove their preview URLs.')
       );
     } else {
-      logger.info('Only the active version exists. Nothing to delete.');
+      logger.info('Only protected versions exist. Nothing to delete.');
     }
   } catch (error) {
     spinner.stop();
@@ -77,6 +193,6 @@ export async function versionsListCommand(
       logger.error('An unknown error occurred.');
     }
 
-    process.exit(1);
+    process.exit(exitCodeForError(error));
   }
 }
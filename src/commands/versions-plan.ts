@@ -0,0 +1,114 @@
+/**
+ * Versions Plan command - write a reviewable deletion plan instead of deleting
+ */
+import chalk from 'chalk';
+import { CloudflareAPI, CloudflareAPIError } from '../lib/cloudflare-api.js';
+import {
+  getClientConfig,
+  getProtectionRules,
+  resolveScriptName,
+} from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { startSpinner } from '../utils/spinner.js';
+import { exitCodeForError } from '../utils/exit-codes.js';
+import { loadVersionInventory } from '../lib/inventory.js';
+import { createVersionPlan, writePlan } from '../lib/plan.js';
+import {
+  chooseVersionsToDelete,
+  type VersionSelectionOptions,
+} from './version-selection.js';
+
+export interface VersionsPlanOptions extends VersionSelectionOptions {
+  out: string;
+  protectRecent?: number;
+}
+
+export async function versionsPlanCommand(
+  scriptNameArg: string | undefined,
+  options: VersionsPlanOptions
+): Promise<void> {
+  const spinner = startSpinner('Fetching deployments...');
+
+  try {
+    const scriptName = resolveScriptName(scriptNameArg);
+    const clientConfig = getClientConfig();
+    const api = new CloudflareAPI(clientConfig);
+    const rules = getProtectionRules(options);
+
+    const inventory = await loadVersionInventory(api, scriptName, {
+      recentDeployments: options.protectRecent,
+      rules,
+      onProgress: (stage) => {
+        spinner.text = `Fetching ${stage}...`;
+      },
+    });
+    spinner.stop();
+
+    const { versions, totalCount, truncated, deletable } = inventory;
+
+    if (versions.length === 0) {
+      logger.warn(`No versions found for script "${scriptName}".`);
+      return;
+    }
+
+    if (truncated) {
+      logger.warn(
+        `Only the first ${versions.length} of ${totalCount} version(s) were loaded (item limit reached).`
+      );
+    }
+
+    for (const pin of inventory.unmatchedPins) {
+      logger.warn(`Pin "${pin}" matches no version of "${scriptName}".`);
+    }
+
+    logger.info(
+      `Found ${totalCount} version(s), ${deletable.length} can be deleted (${versions.length - deletable.length} protected).`
+    );
+    logger.newline();
+
+    const { toDelete } =
+      deletable.length > 0
+        ? await chooseVersionsToDelete(inventory, options)
+        : { toDelete: [] };
+
+    if (toDelete.length === 0) {
+      logger.info('No versions selected. Writing an empty plan.');
+    } else {
+      logger.info('The plan will delete the following versions:');
+      logger.printVersions(toDelete);
+    }
+
+    const plan = createVersionPlan(
+      clientConfig.accountId,
+      inventory,
+      toDelete.map((v) => v.id),
+      options.protectRecent,
+      rules
+    );
+    await writePlan(options.out, plan);
+
+    logger.success(
+      `Plan with ${plan.targets.length} version(s) written to ${options.out}.`
+    );
+    logger.info(
+      `Review the plan, then run "${chalk.cyan(`cwc apply ${options.out}`)}" to execute it.`
+    );
+  } catch (error) {
+    spinner.stop();
+
+    if (error instanceof CloudflareAPIError) {
+      logger.error(error.message);
+      if (error.statusCode === 403) {
+        logger.info(
+          'Make sure your API token has "Workers Scripts: Read" permission.'
+        );
+      }
+    } else if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unknown error occurred.');
+    }
+
+    process.exit(exitCodeForError(error));
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Cloudflare API client configuration from credentials and global options
+ */
+import type { CloudflareConfig } from '../lib/cloudflare-api.js';
+import { getCredentials } from './credentials.js';
+import { getEnv } from './env.js';
+import { getGlobalOptions } from './global-options.js';
+
+/**
+ * Build the configuration for a CloudflareAPI client
+ * @throws {Error} if credentials cannot be resolved
+ */
+export function getClientConfig(): CloudflareConfig {
+  const { accountId, apiToken } = getCredentials();
+  const { maxRetries, retryBaseDelay, retryMaxDelay, concurrency } =
+    getGlobalOptions();
+
+  return {
+    accountId,
+    apiToken,
+    baseUrl: getEnv().CLOUDFLARE_API_BASE_URL,
+    retry: {
+      maxRetries,
+      baseDelayMs: retryBaseDelay,
+      maxDelayMs: retryMaxDelay,
+    },
+    concurrency,
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Config file with named profiles (~/.config/cwc/config.toml or config.json)
+ */
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { parse as parseToml } from 'smol-toml';
+
+const ProfileSchema = z
+  .object({
+    account_id: z.string().min(1).optional(),
+    api_token: z.string().min(1).optional(),
+    token_file: z.string().min(1).optional(),
+  })
+  .strict();
+
+const SafetySchema = z
+  .object({
+    /** Deletions above this count need the script name typed to confirm */
+    confirm_threshold: z.number().int().positive().optional(),
+    /** Scripts matching these globs always need typed confirmation */
+    protected_scripts: z.array(z.string().min(1)).default([]),
+  })
+  .strict();
+
+const ProtectionSchema = z
+  .object({
+    /** Versions whose tag matches one of these globs are never deleted */
+    tags: z.array(z.string().min(1)).default([]),
+    /** Versions whose message matches one of these globs are never deleted */
+    messages: z.array(z.string().min(1)).default([]),
+    /** Version IDs that are never deleted */
+    pinned: z.array(z.string().min(1)).default([]),
+  })
+  .strict();
+
+const ConfigFileSchema = z
+  .object({
+    default_profile: z.string().min(1).optional(),
+    profiles: z.record(ProfileSchema).default({}),
+    safety: SafetySchema.optional(),
+    protection: ProtectionSchema.optional(),
+  })
+  .strict();
+
+export type Profile = z.infer<typeof ProfileSchema>;
+export type SafetyConfig = z.infer<typeof SafetySchema>;
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+/**
+ * Directory holding the config file
+ * Respects XDG_CONFIG_HOME, defaulting to ~/.config/cwc
+ */
+export function getConfigDir(): string {
+  const base = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+  return join(base, 'cwc');
+}
+
+/**
+ * Find the config file to use
+ * CWC_CONFIG takes precedence, then config.toml, then config.json
+ */
+export function findConfigFile(): string | undefined {
+  if (process.env.CWC_CONFIG) {
+    return process.env.CWC_CONFIG;
+  }
+
+  const dir = getConfigDir();
+  return ['config.toml', 'config.json']
+    .map((name) => join(dir, name))
+    .find((path) => existsSync(path));
+}
+
+/**
+ * Load and validate the config file
+ * Returns an empty config when no file exists.
+ * @throws {Error} if the file cannot be parsed or fails validation
+ */
+export function loadConfigFile(path = findConfigFile()): ConfigFile {
+  if (!path) {
+    return { profiles: {} };
+  }
+
+  let raw: unknown;
+  try {
+    const content = readFileSync(path, 'utf8');
+    raw = path.endsWith('.toml') ? parseToml(content) : JSON.parse(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to read config file "${path}": ${reason}`);
+  }
+
+  const result = ConfigFileSchema.safeParse(raw);
+  if (!result.success) {
+    const errors = result.error.errors
+      .map((e) => `  - ${e.path.join('.')}: ${e.message}`)
+      .join('\n');
+    throw new Error(`Config file validation failed (${path}):\n${errors}`);
+  }
+
+  return result.data;
+}
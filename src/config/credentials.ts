@@ -0,0 +1,110 @@
+/**
+ * Credential resolution across CLI flags, profiles and environment variables
+ *
+ * Precedence (highest first):
+ *   1. --account-id / --token-file
+ *   2. The profile selected with --profile (or CWC_PROFILE)
+ *   3. CLOUDFLARE_ACCOUNT_ID / CLOUDFLARE_API_TOKEN (including .env)
+ *   4. account_id from the wrangler config the script name was read from
+ *   5. default_profile from the config file
+ */
+import { readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { getEnv } from './env.js';
+import { loadConfigFile, type Profile } from './config-file.js';
+import { getGlobalOptions } from './global-options.js';
+import { getResolvedWranglerProject } from './wrangler.js';
+
+const CredentialsSchema = z.object({
+  apiToken: z
+    .string({
+      required_error:
+        'API token is required (set CLOUDFLARE_API_TOKEN, use --token-file, or configure a profile)',
+    })
+    .min(1, 'API token must not be empty'),
+  accountId: z
+    .string({
+      required_error:
+        'Account ID is required (set CLOUDFLARE_ACCOUNT_ID, use --account-id, or configure a profile)',
+    })
+    .min(1, 'Account ID must not be empty'),
+});
+
+export type Credentials = z.infer<typeof CredentialsSchema>;
+
+function readTokenFile(path: string): string {
+  const resolved = path.startsWith('~/') ? join(homedir(), path.slice(2)) : path;
+  try {
+    return readFileSync(resolved, 'utf8').trim();
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to read token file "${path}": ${reason}`);
+  }
+}
+
+function profileToken(profile: Profile | undefined): string | undefined {
+  if (!profile) {
+    return undefined;
+  }
+  return profile.token_file
+    ? readTokenFile(profile.token_file)
+    : profile.api_token;
+}
+
+/**
+ * Resolve and validate the credentials to use
+ * @throws {Error} if the profile does not exist or credentials are missing
+ */
+export function getCredentials(): Credentials {
+  const env = getEnv();
+  const config = loadConfigFile();
+  const overrides = getGlobalOptions();
+
+  const selectedName = overrides.profile ?? env.CWC_PROFILE;
+  const selected = selectedName ? config.profiles[selectedName] : undefined;
+  if (selectedName && !selected) {
+    const available = Object.keys(config.profiles);
+    throw new Error(
+      `Profile "${selectedName}" not found.` +
+        (available.length > 0
+          ? ` Available profiles: ${available.join(', ')}`
+          : ' No profiles are configured.')
+    );
+  }
+
+  const fallback = config.default_profile
+    ? config.profiles[config.default_profile]
+    : undefined;
+  if (config.default_profile && !fallback) {
+    throw new Error(
+      `default_profile "${config.default_profile}" is not defined in the config file.`
+    );
+  }
+
+  const result = CredentialsSchema.safeParse({
+    apiToken:
+      (overrides.tokenFile ? readTokenFile(overrides.tokenFile) : undefined) ??
+      profileToken(selected) ??
+      env.CLOUDFLARE_API_TOKEN ??
+      profileToken(fallback),
+    accountId:
+      overrides.accountId ??
+      selected?.account_id ??
+      env.CLOUDFLARE_ACCOUNT_ID ??
+      getResolvedWranglerProject()?.accountId ??
+      fallback?.account_id,
+  });
+
+  if (!result.success) {
+    const errors = result.error.errors
+      .map((e) => `  - ${e.path.join('.')}: ${e.message}`)
+      .join('\n');
+    throw new Error(
+      `Credential validation failed:\n${errors}\n\nPlease set the required environment variables, create a .env file, or configure a profile.`
+    );
+  }
+
+  return result.data;
+}
@@ -7,16 +7,27 @@ import dotenv from 'dotenv';
 // Load .env file
 dotenv.config();
 
+// Empty values are treated as unset
+const optionalString = z
+  .string()
+  .optional()
+  .transform((value) => value || undefined);
+
 const EnvSchema = z.object({
-  CLOUDFLARE_API_TOKEN: z.string().min(1, 'CLOUDFLARE_API_TOKEN is required'),
-  CLOUDFLARE_ACCOUNT_ID: z.string().min(1, 'CLOUDFLARE_ACCOUNT_ID is required'),
+  CLOUDFLARE_API_TOKEN: optionalString,
+  CLOUDFLARE_ACCOUNT_ID: optionalString,
+  CWC_PROFILE: optionalString,
+  CLOUDFLARE_API_BASE_URL: optionalString.pipe(
+    z.string().url('must be a URL').optional()
+  ),
 });
 
 export type Env = z.infer<typeof EnvSchema>;
 
 /**
  * Validate and return environment variables
- * @throws {Error} if required environment variables are missing
+ * Credentials may also come from a profile, so none of them are required here.
+ * @throws {Error} if environment variables are malformed
  */
 export function getEnv(): Env {
   const result = EnvSchema.safeParse(process.env);
@@ -25,9 +36,7 @@ export function getEnv(): Env {
     const errors = result.error.errors
       .map((e) => `  - ${e.path.join('.')}: ${e.message}`)
       .join('\n');
-    throw new Error(
-      `Environment validation failed:\n${errors}\n\nPlease set the required environment variables or create a .env file.`
-    );
+    throw new Error(`Environment validation failed:\n${errors}`);
   }
 
   return result.data;
@@ -0,0 +1,39 @@
+/**
+ * Global CLI options shared by every command
+ */
+export interface GlobalOptions {
+  /** Named profile from the config file */
+  profile?: string;
+  /** Account ID override */
+  accountId?: string;
+  /** Path to a file holding the API token */
+  tokenFile?: string;
+  /** Wrangler environment used when the script name comes from wrangler config */
+  env?: string;
+  /** Number of retries for rate-limited, 5xx and network failures */
+  maxRetries?: number;
+  /** Base delay for exponential backoff in ms */
+  retryBaseDelay?: number;
+  /** Upper bound for a single backoff delay in ms */
+  retryMaxDelay?: number;
+  /** Number of deletions in flight at once */
+  concurrency?: number;
+  /** False with --no-interactive */
+  interactive?: boolean;
+}
+
+let globalOptions: GlobalOptions = {};
+
+/**
+ * Record the global options parsed by the CLI
+ */
+export function setGlobalOptions(options: GlobalOptions): void {
+  globalOptions = { ...options };
+}
+
+/**
+ * Get the global options parsed by the CLI
+ */
+export function getGlobalOptions(): GlobalOptions {
+  return globalOptions;
+}
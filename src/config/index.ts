@@ -1 +1,30 @@
 export { getEnv, type Env } from './env.js';
+export {
+  findConfigFile,
+  getConfigDir,
+  loadConfigFile,
+  type ConfigFile,
+  type Profile,
+  type SafetyConfig,
+} from './config-file.js';
+export { getCredentials, type Credentials } from './credentials.js';
+export { getClientConfig } from './client.js';
+export { getSafetyRules } from './safety.js';
+export {
+  getProtectionRules,
+  type ProtectionRuleOptions,
+} from './protection.js';
+export {
+  getGlobalOptions,
+  setGlobalOptions,
+  type GlobalOptions,
+} from './global-options.js';
+export {
+  findWranglerConfig,
+  loadWranglerConfig,
+  resolveScriptName,
+  resolveWranglerProject,
+  getResolvedWranglerProject,
+  type WranglerConfig,
+  type WranglerProject,
+} from './wrangler.js';
@@ -0,0 +1,34 @@
+/**
+ * Version protection rules from the [protection] section of the config file and CLI flags
+ */
+import {
+  mergeProtectionRules,
+  type ProtectionRules,
+} from '../lib/protection.js';
+import { loadConfigFile } from './config-file.js';
+
+export interface ProtectionRuleOptions {
+  /** --protect-tag globs */
+  protectTag?: string[];
+  /** --protect-message globs */
+  protectMessage?: string[];
+  /** --pin version IDs */
+  pin?: string[];
+}
+
+/**
+ * Merge the config file rules with the rules given on the command line
+ * Rules only ever add protection, so flags cannot unprotect a configured version.
+ * @throws {Error} if the config file cannot be read
+ */
+export function getProtectionRules(
+  options: ProtectionRuleOptions = {},
+  recorded?: ProtectionRules
+): ProtectionRules {
+  const { protection } = loadConfigFile();
+  return mergeProtectionRules(protection, recorded, {
+    tags: options.protectTag,
+    messages: options.protectMessage,
+    pinned: options.pin,
+  });
+}
@@ -0,0 +1,17 @@
+/**
+ * Safety rules from the [safety] section of the config file
+ */
+import type { SafetyRules } from '../lib/safety.js';
+import { loadConfigFile } from './config-file.js';
+
+/**
+ * Get the typed-confirmation rules; none apply when the section is absent
+ * @throws {Error} if the config file cannot be read
+ */
+export function getSafetyRules(): SafetyRules {
+  const { safety } = loadConfigFile();
+  return {
+    confirmThreshold: safety?.confirm_threshold,
+    protectedScripts: safety?.protected_scripts ?? [],
+  };
+}
@@ -0,0 +1,211 @@
+/**
+ * Wrangler config discovery (wrangler.json / wrangler.jsonc / wrangler.toml)
+ */
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { z } from 'zod';
+import { parse as parseToml } from 'smol-toml';
+import { getGlobalOptions } from './global-options.js';
+
+// Same order of preference as Wrangler itself
+const WRANGLER_CONFIG_FILES = ['wrangler.json', 'wrangler.jsonc', 'wrangler.toml'];
+
+const WranglerEnvSchema = z
+  .object({
+    name: z.string().min(1).optional(),
+    account_id: z.string().min(1).optional(),
+  })
+  .passthrough();
+
+const WranglerConfigSchema = z
+  .object({
+    name: z.string().min(1).optional(),
+    account_id: z.string().min(1).optional(),
+    env: z.record(WranglerEnvSchema).optional(),
+  })
+  .passthrough();
+
+export type WranglerConfig = z.infer<typeof WranglerConfigSchema>;
+
+export interface WranglerProject {
+  configPath: string;
+  scriptName: string;
+  accountId?: string;
+}
+
+let resolvedProject: WranglerProject | undefined;
+
+/**
+ * Find the nearest wrangler config file, walking up from the given directory
+ */
+export function findWranglerConfig(startDir = process.cwd()): string | undefined {
+  let dir = startDir;
+  for (;;) {
+    const found = WRANGLER_CONFIG_FILES.map((name) => join(dir, name)).find(
+      (path) => existsSync(path)
+    );
+    if (found) {
+      return found;
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Find the next character that is not whitespace or part of a comment
+ */
+function nextSignificantChar(text: string, from: number): string | undefined {
+  let i = from;
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+    } else if (text.startsWith('//', i)) {
+      const end = text.indexOf('\n', i);
+      i = end === -1 ? text.length : end;
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 2;
+    } else {
+      return text[i];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Remove comments and trailing commas from JSONC, leaving strings untouched
+ */
+function stripJsonc(text: string): string {
+  let out = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const next = text[i + 1];
+
+    if (inString) {
+      out += char;
+      if (char === '\\') {
+        out += next ?? '';
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      out += char;
+    } else if (char === '/' && next === '/') {
+      while (i < text.length && text[i] !== '\n') {
+        i++;
+      }
+      out += '\n';
+    } else if (char === '/' && next === '*') {
+      i += 2;
+      while (i < text.length && !(text[i] === '*' && text[i + 1] === '/')) {
+        i++;
+      }
+      i++;
+    } else if (char === ',' && /[}\]]/.test(nextSignificantChar(text, i + 1) ?? '')) {
+      // Drop trailing comma before a closing bracket
+    } else {
+      out += char;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Read and validate a wrangler config file
+ * @throws {Error} if the file cannot be parsed or fails validation
+ */
+export function loadWranglerConfig(path: string): WranglerConfig {
+  let raw: unknown;
+  try {
+    const content = readFileSync(path, 'utf8');
+    raw = path.endsWith('.toml')
+      ? parseToml(content)
+      : JSON.parse(stripJsonc(content));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to read wrangler config "${path}": ${reason}`);
+  }
+
+  const result = WranglerConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const errors = result.error.errors
+      .map((e) => `  - ${e.path.join('.')}: ${e.message}`)
+      .join('\n');
+    throw new Error(`Wrangler config validation failed (${path}):\n${errors}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Work out the script name and account for a wrangler environment
+ * Without an explicit env name, Wrangler deploys "<name>-<env>".
+ */
+export function resolveWranglerProject(
+  configPath: string,
+  envName?: string
+): WranglerProject {
+  const config = loadWranglerConfig(configPath);
+
+  if (!config.name) {
+    throw new Error(`Wrangler config "${configPath}" has no "name".`);
+  }
+
+  if (!envName) {
+    return {
+      configPath,
+      scriptName: config.name,
+      accountId: config.account_id,
+    };
+  }
+
+  const envConfig = config.env?.[envName];
+  if (!envConfig) {
+    throw new Error(
+      `Environment "${envName}" is not defined in wrangler config "${configPath}".`
+    );
+  }
+
+  return {
+    configPath,
+    scriptName: envConfig.name ?? `${config.name}-${envName}`,
+    accountId: envConfig.account_id ?? config.account_id,
+  };
+}
+
+/**
+ * Return the given script name, or read it from the nearest wrangler config
+ * @throws {Error} if no script name is given and no wrangler config is found
+ */
+export function resolveScriptName(scriptName: string | undefined): string {
+  if (scriptName) {
+    return scriptName;
+  }
+
+  const configPath = findWranglerConfig();
+  if (!configPath) {
+    throw new Error(
+      'No script name given and no wrangler.toml / wrangler.json / wrangler.jsonc found.'
+    );
+  }
+
+  resolvedProject = resolveWranglerProject(configPath, getGlobalOptions().env);
+  return resolvedProject.scriptName;
+}
+
+/**
+ * The wrangler project the script name was read from, if any
+ */
+export function getResolvedWranglerProject(): WranglerProject | undefined {
+  return resolvedProject;
+}
@@ -0,0 +1,229 @@
+/**
+ * Append-only audit log (JSONL) of every attempted deletion
+ */
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { hostname, userInfo } from 'node:os';
+import { dirname, join } from 'node:path';
+import { getStateDir } from './state.js';
+import type { Deployment, PagesDeployment, Version } from './cloudflare-api.js';
+
+export interface AuditEntry {
+  timestamp: string;
+  accountId: string;
+  scriptName: string;
+  /** For pages_deployment entries, scriptName holds the Pages project name */
+  resourceType: 'version' | 'deployment' | 'pages_deployment';
+  id: string;
+  versionNumber?: number;
+  author?: string;
+  tag?: string;
+  /** Preview alias the version held when it was deleted */
+  alias?: string;
+  outcome: 'success' | 'failed';
+  error?: string;
+  operator: string;
+}
+
+export interface AuditContext {
+  accountId: string;
+  scriptName: string;
+  operator?: string;
+}
+
+export interface AuditFilter {
+  scriptName?: string;
+  since?: Date;
+  until?: Date;
+}
+
+/**
+ * Path of the audit log
+ * CWC_AUDIT_LOG takes precedence, then $XDG_STATE_HOME/cwc/audit.jsonl
+ * (defaulting to ~/.local/state/cwc/audit.jsonl)
+ */
+export function getAuditLogPath(): string {
+  if (process.env.CWC_AUDIT_LOG) {
+    return process.env.CWC_AUDIT_LOG;
+  }
+  return join(getStateDir(), 'audit.jsonl');
+}
+
+/**
+ * Identify who performed the operation
+ * CWC_OPERATOR takes precedence over the local user and host name.
+ */
+export function getOperatorIdentity(): string {
+  if (process.env.CWC_OPERATOR) {
+    return process.env.CWC_OPERATOR;
+  }
+  try {
+    return `${userInfo().username}@${hostname()}`;
+  } catch {
+    return `unknown@${hostname()}`;
+  }
+}
+
+type AuditFields = Pick<
+  AuditEntry,
+  'id' | 'versionNumber' | 'author' | 'tag' | 'alias'
+>;
+
+function describeVersion(v: Version): AuditFields {
+  return {
+    id: v.id,
+    versionNumber: v.number,
+    author: v.metadata.author_email,
+    tag: v.annotations?.['workers/tag'],
+    alias: v.annotations?.['workers/alias'],
+  };
+}
+
+function describeDeployment(d: Deployment): AuditFields {
+  return { id: d.id, author: d.author_email };
+}
+
+function describePagesDeployment(d: PagesDeployment): AuditFields {
+  return { id: d.id };
+}
+
+/**
+ * Append entries to the audit log, creating it if needed
+ */
+export async function writeAuditLog(
+  entries: AuditEntry[],
+  path = getAuditLogPath()
+): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+  await mkdir(dirname(path), { recursive: true, mode: 0o700 });
+  await appendFile(
+    path,
+    entries.map((entry) => `${JSON.stringify(entry)}\n`).join(''),
+    { encoding: 'utf8', mode: 0o600 }
+  );
+}
+
+/**
+ * Appends an audit entry as soon as each deletion completes
+ * Writes are queued in order, so an interrupted run keeps the entries of
+ * every deletion that already happened.
+ */
+export class AuditRecorder<T> {
+  private pending: Promise<void> = Promise.resolve();
+  private writeError?: Error;
+  private readonly operator: string;
+
+  constructor(
+    private readonly context: Omit<AuditContext, 'scriptName'>,
+    private readonly resourceType: AuditEntry['resourceType'],
+    private readonly describe: (target: T) => AuditFields,
+    public readonly path = getAuditLogPath()
+  ) {
+    this.operator = context.operator ?? getOperatorIdentity();
+  }
+
+  /**
+   * Record a deletion, or a failed attempt when an error is given
+   */
+  record(scriptName: string, target: T, error?: string): void {
+    const entry: AuditEntry = {
+      timestamp: new Date().toISOString(),
+      accountId: this.context.accountId,
+      scriptName,
+      resourceType: this.resourceType,
+      ...this.describe(target),
+      outcome: error === undefined ? 'success' : 'failed',
+      error,
+      operator: this.operator,
+    };
+    this.pending = this.pending.then(async () => {
+      try {
+        await writeAuditLog([entry], this.path);
+      } catch (writeError) {
+        this.writeError ??=
+          writeError instanceof Error ? writeError : new Error('Unknown error');
+      }
+    });
+  }
+
+  /**
+   * Wait for queued writes, returning the first write error if any
+   */
+  async close(): Promise<Error | undefined> {
+    await this.pending;
+    return this.writeError;
+  }
+}
+
+/**
+ * Audit recorder for version deletions
+ */
+export function versionAuditRecorder(
+  context: Omit<AuditContext, 'scriptName'>
+): AuditRecorder<Version> {
+  return new AuditRecorder(context, 'version', describeVersion);
+}
+
+/**
+ * Audit recorder for deployment deletions
+ */
+export function deploymentAuditRecorder(
+  context: Omit<AuditContext, 'scriptName'>
+): AuditRecorder<Deployment> {
+  return new AuditRecorder(context, 'deployment', describeDeployment);
+}
+
+/**
+ * Audit recorder for Pages deployment deletions (scriptName is the project name)
+ */
+export function pagesDeploymentAuditRecorder(
+  context: Omit<AuditContext, 'scriptName'>
+): AuditRecorder<PagesDeployment> {
+  return new AuditRecorder(context, 'pages_deployment', describePagesDeployment);
+}
+
+/**
+ * Read audit entries, optionally filtered by script and date range
+ * Lines that cannot be parsed are skipped. A missing log yields no entries.
+ */
+export async function readAuditLog(
+  filter: AuditFilter = {},
+  path = getAuditLogPath()
+): Promise<AuditEntry[]> {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const entries: AuditEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as AuditEntry);
+    } catch {
+      // Skip corrupted lines rather than hiding the rest of the log
+    }
+  }
+
+  return entries.filter((entry) => {
+    if (filter.scriptName && entry.scriptName !== filter.scriptName) {
+      return false;
+    }
+    const time = Date.parse(entry.timestamp);
+    if (filter.since && !(time >= filter.since.getTime())) {
+      return false;
+    }
+    if (filter.until && !(time <= filter.until.getTime())) {
+      return false;
+    }
+    return true;
+  });
+}
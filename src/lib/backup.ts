@@ -0,0 +1,104 @@
+/**
+ * Version backups - save version detail and content to disk before deletion
+ */
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { CloudflareAPI, Version } from './cloudflare-api.js';
+
+export interface BackupResult {
+  id: string;
+  /** Directory the version was saved to */
+  dir: string;
+  /** False when the API did not expose the script content */
+  contentSaved: boolean;
+}
+
+export interface BackupSummary {
+  saved: BackupResult[];
+  failed: Array<{ id: string; error: string }>;
+}
+
+function contentExtension(contentType: string): string {
+  if (contentType.includes('javascript')) {
+    return 'js';
+  }
+  if (contentType.includes('multipart')) {
+    return 'multipart';
+  }
+  if (contentType.includes('wasm')) {
+    return 'wasm';
+  }
+  return 'bin';
+}
+
+/**
+ * Save one version to <backupDir>/<script>/<number>-<id>/
+ * Writes version.json (metadata, annotations, bindings) and the script
+ * content where the API exposes it.
+ */
+export async function backupVersion(
+  api: CloudflareAPI,
+  scriptName: string,
+  versionId: string,
+  backupDir: string
+): Promise<BackupResult> {
+  const detail = await api.getVersion(scriptName, versionId);
+  const content = await api.getVersionContent(scriptName, versionId);
+
+  const dir = join(backupDir, scriptName, `${detail.number}-${detail.id}`);
+  await mkdir(dir, { recursive: true });
+
+  const contentFile = content
+    ? `content.${contentExtension(content.contentType)}`
+    : undefined;
+  if (content && contentFile) {
+    await writeFile(join(dir, contentFile), content.body);
+  }
+
+  await writeFile(
+    join(dir, 'version.json'),
+    `${JSON.stringify(
+      {
+        exportedAt: new Date().toISOString(),
+        scriptName,
+        contentFile,
+        contentType: content?.contentType,
+        version: detail,
+      },
+      null,
+      2
+    )}\n`,
+    'utf8'
+  );
+
+  return { id: versionId, dir, contentSaved: content !== undefined };
+}
+
+/**
+ * Save several versions, recording failures instead of stopping
+ */
+export async function backupVersions(
+  api: CloudflareAPI,
+  scriptName: string,
+  versions: Version[],
+  backupDir: string,
+  onProgress?: (completed: number, total: number, id: string) => void
+): Promise<BackupSummary> {
+  const saved: BackupResult[] = [];
+  const failed: BackupSummary['failed'] = [];
+
+  for (let i = 0; i < versions.length; i++) {
+    const { id } = versions[i];
+    try {
+      saved.push(await backupVersion(api, scriptName, id, backupDir));
+    } catch (error) {
+      failed.push({
+        id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+    onProgress?.(i + 1, versions.length, id);
+  }
+
+  return { saved, failed };
+}
@@ -0,0 +1,185 @@
+/**
+ * Bulk operation engine - bounded concurrency with a shared rate limiter
+ */
+
+/**
+ * A failed item, with the HTTP status and Cloudflare error code when known
+ */
+export interface BulkFailure {
+  id: string;
+  error: string;
+  status?: number;
+  code?: number;
+}
+
+/**
+ * Outcome of deleting several resources
+ */
+export interface BulkDeleteResult {
+  success: string[];
+  failed: BulkFailure[];
+}
+
+/**
+ * Progress callback, called once per item in input order
+ * `failure` is set when the item failed.
+ */
+export type BulkProgressCallback = (
+  completed: number,
+  total: number,
+  id: string,
+  failure?: BulkFailure
+) => void;
+
+/**
+ * Called as soon as each item finishes, in completion order
+ * Use it to persist outcomes; an item is not held back by slower ones before it.
+ */
+export type BulkSettledCallback = (id: string, failure?: BulkFailure) => void;
+
+export interface BulkOptions {
+  /** Number of operations in flight at once (default: 1) */
+  concurrency?: number;
+  /** Limiter every operation waits on before starting */
+  limiter?: TokenBucket;
+  onProgress?: BulkProgressCallback;
+  onSettled?: BulkSettledCallback;
+  /** Turn a thrown error into failure details (default: its message) */
+  describeError?: (error: unknown) => Omit<BulkFailure, 'id'>;
+}
+
+function defaultDescribeError(error: unknown): Omit<BulkFailure, 'id'> {
+  return { error: error instanceof Error ? error.message : 'Unknown error' };
+}
+
+/**
+ * Token-bucket rate limiter
+ * Allows bursts of up to `capacity` operations, refilling at
+ * `ratePerSecond` tokens per second.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private ratePerSecond: number,
+    private capacity = 1
+  ) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Wait until a token is available and consume it
+   * Callers are served in the order they asked.
+   */
+  take(): Promise<void> {
+    const next = this.queue.then(() => this.acquire());
+    this.queue = next;
+    return next;
+  }
+
+  private async acquire(): Promise<void> {
+    this.refill();
+    if (this.tokens < 1) {
+      const wait = ((1 - this.tokens) / this.ratePerSecond) * 1000;
+      await new Promise((resolve) => setTimeout(resolve, Math.ceil(wait)));
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + elapsed * this.ratePerSecond
+    );
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Run an operation for every ID with bounded concurrency
+ * Failures are recorded rather than thrown. onSettled is called as each item
+ * finishes; results and onProgress follow input order regardless of the order
+ * operations finish in. A throwing callback does not stop the batch: every
+ * item still runs and is reported, then the first callback error is thrown.
+ */
+export async function runBulk(
+  ids: string[],
+  operation: (id: string) => Promise<void>,
+  options: BulkOptions = {}
+): Promise<BulkDeleteResult> {
+  const concurrency = Math.max(
+    1,
+    Math.min(options.concurrency ?? 1, ids.length)
+  );
+  const describeError = options.describeError ?? defaultDescribeError;
+  const outcomes: Array<{ failure?: BulkFailure } | undefined> = new Array(
+    ids.length
+  );
+  const callbackErrors: unknown[] = [];
+  let nextIndex = 0;
+  let reported = 0;
+
+  const notify = (callback: () => void) => {
+    try {
+      callback();
+    } catch (error) {
+      callbackErrors.push(error);
+    }
+  };
+
+  // Report every finished item that has no unfinished item before it
+  const flush = () => {
+    while (reported < ids.length && outcomes[reported]) {
+      const index = reported++;
+      notify(() =>
+        options.onProgress?.(
+          index + 1,
+          ids.length,
+          ids[index],
+          outcomes[index]?.failure
+        )
+      );
+    }
+  };
+
+  const worker = async () => {
+    while (nextIndex < ids.length) {
+      const index = nextIndex++;
+      try {
+        await options.limiter?.take();
+        await operation(ids[index]);
+        outcomes[index] = {};
+      } catch (error) {
+        outcomes[index] = {
+          failure: { id: ids[index], ...describeError(error) },
+        };
+      }
+      notify(() => options.onSettled?.(ids[index], outcomes[index]?.failure));
+      flush();
+    }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, worker));
+
+  if (callbackErrors.length > 0) {
+    throw callbackErrors[0];
+  }
+
+  const success: string[] = [];
+  const failed: BulkDeleteResult['failed'] = [];
+  ids.forEach((id, i) => {
+    const failure = outcomes[i]?.failure;
+    if (failure) {
+      failed.push(failure);
+    } else {
+      success.push(id);
+    }
+  });
+
+  return { success, failed };
+}
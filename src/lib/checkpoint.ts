@@ -0,0 +1,215 @@
+/**
+ * Checkpoints - progress of a bulk deletion, saved after every item so an
+ * interrupted run can be resumed
+ */
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { z } from 'zod';
+import { getStateDir } from './state.js';
+import { ProtectionRulesSchema } from './protection.js';
+
+export const CHECKPOINT_FORMAT_VERSION = 1;
+
+const CheckpointItemSchema = z.object({
+  /** Worker script, or Pages project for Pages deployments */
+  scriptName: z.string().min(1),
+  id: z.string().min(1),
+  /** skipped: left alone because it became protected; never retried */
+  status: z.enum(['pending', 'done', 'failed', 'skipped']),
+  error: z.string().optional(),
+  /** Why a skipped item was left alone */
+  reason: z.string().optional(),
+});
+
+const CheckpointSchema = z.object({
+  formatVersion: z.literal(CHECKPOINT_FORMAT_VERSION),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  accountId: z.string().min(1),
+  resourceType: z.enum(['version', 'deployment', 'pages_deployment']),
+  /** Number of recent deployments whose versions were protected */
+  protectRecent: z.number().int().positive().optional(),
+  /** Tag, message and pin rules the deletion was selected with */
+  protection: ProtectionRulesSchema.optional(),
+  /** Directory versions were backed up to before deletion */
+  backupDir: z.string().optional(),
+  items: z.array(CheckpointItemSchema),
+});
+
+export type Checkpoint = z.infer<typeof CheckpointSchema>;
+export type CheckpointItem = z.infer<typeof CheckpointItemSchema>;
+
+export class CheckpointError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CheckpointError';
+  }
+}
+
+/**
+ * Path of the checkpoint written by the most recent run
+ * CWC_CHECKPOINT takes precedence, then $XDG_STATE_HOME/cwc/last-run.json
+ */
+export function getLastRunPath(): string {
+  return process.env.CWC_CHECKPOINT || join(getStateDir(), 'last-run.json');
+}
+
+/**
+ * Build a checkpoint with every target pending
+ */
+export function createCheckpoint(
+  accountId: string,
+  resourceType: Checkpoint['resourceType'],
+  targets: Array<{ scriptName: string; id: string }>,
+  options: Pick<Checkpoint, 'protectRecent' | 'protection' | 'backupDir'> = {}
+): Checkpoint {
+  const now = new Date().toISOString();
+  return {
+    formatVersion: CHECKPOINT_FORMAT_VERSION,
+    createdAt: now,
+    updatedAt: now,
+    accountId,
+    resourceType,
+    ...options,
+    items: targets.map(({ scriptName, id }) => ({
+      scriptName,
+      id,
+      status: 'pending',
+    })),
+  };
+}
+
+/**
+ * Items still to be deleted: pending and failed, or only failed
+ * Skipped items are never returned.
+ */
+export function remainingItems(
+  checkpoint: Checkpoint,
+  options: { onlyFailed?: boolean } = {}
+): CheckpointItem[] {
+  return checkpoint.items.filter((item) =>
+    options.onlyFailed
+      ? item.status === 'failed'
+      : item.status === 'pending' || item.status === 'failed'
+  );
+}
+
+/**
+ * Write a checkpoint atomically (write to a temporary file, then rename)
+ */
+export async function writeCheckpoint(
+  path: string,
+  checkpoint: Checkpoint
+): Promise<void> {
+  await mkdir(dirname(path), { recursive: true, mode: 0o700 });
+  const temporary = `${path}.tmp`;
+  await writeFile(temporary, `${JSON.stringify(checkpoint, null, 2)}\n`, {
+    encoding: 'utf8',
+    mode: 0o600,
+  });
+  await rename(temporary, path);
+}
+
+/**
+ * Read and validate a checkpoint file
+ * @throws {CheckpointError} if the file is missing or not a valid checkpoint
+ */
+export async function readCheckpoint(path: string): Promise<Checkpoint> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(path, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new CheckpointError(`No checkpoint found at "${path}".`);
+    }
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    throw new CheckpointError(`Failed to read checkpoint "${path}": ${reason}`);
+  }
+
+  const result = CheckpointSchema.safeParse(raw);
+  if (!result.success) {
+    const errors = result.error.errors
+      .map((e) => `  - ${e.path.join('.')}: ${e.message}`)
+      .join('\n');
+    throw new CheckpointError(`Invalid checkpoint "${path}":\n${errors}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Records item outcomes and saves the checkpoint after each one
+ * Saves are serialized; outcomes recorded while a save is queued are
+ * written together. Write failures are kept rather than thrown so they
+ * never interrupt a deletion.
+ */
+export class CheckpointRecorder {
+  private items: Map<string, CheckpointItem>;
+  private pending: Promise<void> = Promise.resolve();
+  private queued = false;
+  private writeError?: Error;
+
+  constructor(
+    public readonly path: string,
+    public readonly checkpoint: Checkpoint
+  ) {
+    this.items = new Map(
+      checkpoint.items.map((item) => [`${item.scriptName}/${item.id}`, item])
+    );
+  }
+
+  /**
+   * Mark an item done, or failed when an error is given
+   */
+  record(scriptName: string, id: string, error?: string): void {
+    const item = this.items.get(`${scriptName}/${id}`);
+    if (!item) {
+      return;
+    }
+    item.status = error === undefined ? 'done' : 'failed';
+    item.error = error;
+    this.save();
+  }
+
+  /**
+   * Mark an item skipped, so neither resume nor retry-failed picks it up again
+   */
+  skip(scriptName: string, id: string, reason: string): void {
+    const item = this.items.get(`${scriptName}/${id}`);
+    if (!item) {
+      return;
+    }
+    item.status = 'skipped';
+    item.error = undefined;
+    item.reason = reason;
+    this.save();
+  }
+
+  /**
+   * Queue a save of the checkpoint
+   */
+  save(): Promise<void> {
+    if (!this.queued) {
+      this.queued = true;
+      this.pending = this.pending.then(async () => {
+        this.queued = false;
+        this.checkpoint.updatedAt = new Date().toISOString();
+        try {
+          await writeCheckpoint(this.path, this.checkpoint);
+        } catch (error) {
+          this.writeError ??=
+            error instanceof Error ? error : new Error('Unknown error');
+        }
+      });
+    }
+    return this.pending;
+  }
+
+  /**
+   * Wait for queued saves, returning the first write error if any
+   */
+  async close(): Promise<Error | undefined> {
+    await this.pending;
+    return this.writeError;
+  }
+}
@@ -0,0 +1,331 @@
+/**
+ * Cleanup plans - work out and carry out deletions without printing or prompting
+ */
+import type {
+  BulkDeleteResult,
+  BulkFailure,
+  BulkProgressCallback,
+  BulkSettledCallback,
+  CloudflareAPI,
+  Deployment,
+  PagesDeployment,
+  PaginationOptions,
+  Version,
+} from './cloudflare-api.js';
+import type { AuditRecorder } from './audit.js';
+import { backupVersions, type BackupSummary } from './backup.js';
+import type { CheckpointRecorder } from './checkpoint.js';
+import { loadVersionInventory, type VersionInventory } from './inventory.js';
+import {
+  hasSelectionCriteria,
+  selectDeployments,
+  selectVersions,
+  type SelectionCriteria,
+} from './selection.js';
+import type { ProtectionOptions } from './protection.js';
+
+export interface CleanupOptions extends SelectionCriteria {
+  /**
+   * Select everything deletable when no selection criteria are given.
+   * Without criteria or `all`, nothing is selected.
+   */
+  all?: boolean;
+}
+
+export interface VersionCleanupPlan {
+  scriptName: string;
+  inventory: VersionInventory;
+  toDelete: Version[];
+  /** Versions that must not be deleted, with the reason */
+  protected: Array<{ version: Version; reason: string }>;
+}
+
+export interface DeploymentCleanupPlan {
+  scriptName: string;
+  deployments: Deployment[];
+  /** True when not every deployment could be loaded */
+  truncated: boolean;
+  toDelete: Deployment[];
+  /** The active deployment, which is never deleted */
+  active?: Deployment;
+}
+
+export interface CleanupResult<T> {
+  deleted: T[];
+  failed: Array<{ item: T } & Omit<BulkFailure, 'id'>>;
+}
+
+export interface ExecuteOptions<T = unknown> {
+  onProgress?: BulkProgressCallback;
+  /**
+   * Called once per item in input order as it is deleted, or fails
+   * (including a failed backup)
+   */
+  onOutcome?: (item: T, failure?: BulkFailure) => void;
+  /** Checkpoint whose items are marked done or failed as they complete */
+  checkpoint?: CheckpointRecorder;
+  /** Audit log each attempted deletion is appended to as it completes */
+  audit?: AuditRecorder<T>;
+  /** Count items the API no longer has (404) as deleted, e.g. when resuming */
+  missingIsDeleted?: boolean;
+}
+
+export interface VersionExecuteOptions extends ExecuteOptions<Version> {
+  /**
+   * Back up every version here before deleting anything.
+   * Versions whose backup fails are returned as failed and never deleted.
+   */
+  backupDir?: string;
+  onBackupProgress?: (completed: number, total: number, id: string) => void;
+  /** Called once the backup is done, before the first deletion */
+  onBackup?: (summary: BackupSummary) => void;
+}
+
+/**
+ * Pick the versions to delete: by criteria, every deletable version with `all`, or none
+ * Protected versions are never returned.
+ */
+export function selectCleanupVersions(
+  inventory: Pick<
+    VersionInventory,
+    'versions' | 'deletable' | 'protectedVersions'
+  >,
+  options: CleanupOptions
+): Version[] {
+  const { all, ...criteria } = options;
+  const { versions, deletable, protectedVersions } = inventory;
+  const selected = hasSelectionCriteria(criteria)
+    ? selectVersions(versions, deletable, criteria)
+    : all
+      ? deletable
+      : [];
+  return selected.filter((v) => !protectedVersions.has(v.id));
+}
+
+/**
+ * Pick the deployments to delete: by criteria, every deletable deployment with `all`, or none
+ * The first (active) deployment is never returned.
+ */
+export function selectCleanupDeployments(
+  deployments: Deployment[],
+  options: CleanupOptions
+): Deployment[] {
+  const { all, ...criteria } = options;
+  const deletable = deployments.slice(1);
+  if (hasSelectionCriteria(criteria)) {
+    return selectDeployments(deployments, deletable, criteria);
+  }
+  return all ? deletable : [];
+}
+
+/**
+ * Plan which versions of a script to delete
+ * Protected versions are never selected.
+ */
+export async function planVersionCleanup(
+  api: CloudflareAPI,
+  scriptName: string,
+  options: CleanupOptions & ProtectionOptions = {}
+): Promise<VersionCleanupPlan> {
+  const { recentDeployments, rules, ...selection } = options;
+  const inventory = await loadVersionInventory(api, scriptName, {
+    recentDeployments,
+    rules,
+  });
+  const { versions, protectedVersions } = inventory;
+
+  return {
+    scriptName,
+    inventory,
+    toDelete: selectCleanupVersions(inventory, selection),
+    protected: versions
+      .filter((v) => protectedVersions.has(v.id))
+      .map((version) => ({
+        version,
+        reason: protectedVersions.get(version.id) ?? 'protected',
+      })),
+  };
+}
+
+/**
+ * Plan which deployments of a script to delete
+ * The active deployment is never selected.
+ */
+export async function planDeploymentCleanup(
+  api: CloudflareAPI,
+  scriptName: string,
+  options: CleanupOptions & PaginationOptions = {}
+): Promise<DeploymentCleanupPlan> {
+  const { pageSize, maxItems, ...selection } = options;
+  const { items: deployments, truncated } = await api.listDeployments(
+    scriptName,
+    { pageSize, maxItems }
+  );
+
+  return {
+    scriptName,
+    deployments,
+    truncated,
+    toDelete: selectCleanupDeployments(deployments, selection),
+    active: deployments[0],
+  };
+}
+
+/**
+ * Pair a bulk result with the items it was run on
+ */
+function cleanupResult<T extends { id: string }>(
+  items: T[],
+  result: { success: string[]; failed: BulkFailure[] }
+): CleanupResult<T> {
+  const byId = new Map(items.map((item) => [item.id, item]));
+  return {
+    deleted: result.success
+      .map((id) => byId.get(id))
+      .filter((item): item is T => item !== undefined),
+    failed: result.failed.flatMap(({ id, ...failure }) => {
+      const item = byId.get(id);
+      return item ? [{ item, ...failure }] : [];
+    }),
+  };
+}
+
+/**
+ * Delete items of one script, recording each outcome as soon as it is known
+ * The checkpoint and audit log are written as each item completes; onOutcome
+ * and onProgress follow input order.
+ */
+async function executeCleanup<T extends { id: string }>(
+  scriptName: string,
+  items: T[],
+  remove: (
+    ids: string[],
+    onProgress: BulkProgressCallback,
+    onSettled: BulkSettledCallback
+  ) => Promise<BulkDeleteResult>,
+  options: ExecuteOptions<T>
+): Promise<CleanupResult<T>> {
+  if (items.length === 0) {
+    return { deleted: [], failed: [] };
+  }
+
+  const byId = new Map(items.map((item) => [item.id, item]));
+  const outcome = (failure?: BulkFailure) =>
+    options.missingIsDeleted && failure?.status === 404 ? undefined : failure;
+
+  const result = await remove(
+    items.map((item) => item.id),
+    (completed, total, id, failure) => {
+      const item = byId.get(id);
+      if (item) {
+        options.onOutcome?.(item, outcome(failure));
+      }
+      options.onProgress?.(completed, total, id, outcome(failure));
+    },
+    (id, failure) => {
+      options.checkpoint?.record(scriptName, id, outcome(failure)?.error);
+      const item = byId.get(id);
+      if (item) {
+        options.audit?.record(scriptName, item, outcome(failure)?.error);
+      }
+    }
+  );
+
+  if (!options.missingIsDeleted) {
+    return cleanupResult(items, result);
+  }
+  const deleted = new Set([
+    ...result.success,
+    ...result.failed.filter((f) => !outcome(f)).map((f) => f.id),
+  ]);
+  return cleanupResult(items, {
+    success: items.map((item) => item.id).filter((id) => deleted.has(id)),
+    failed: result.failed.filter((f) => !deleted.has(f.id)),
+  });
+}
+
+/**
+ * Delete the versions selected by a plan, backing them up first when asked
+ * Failures are returned, not thrown.
+ */
+export async function executeVersionCleanup(
+  api: CloudflareAPI,
+  plan: Pick<VersionCleanupPlan, 'scriptName' | 'toDelete'>,
+  options: VersionExecuteOptions = {}
+): Promise<CleanupResult<Version>> {
+  const { scriptName, toDelete } = plan;
+  let targets = toDelete;
+  const backupFailures: CleanupResult<Version>['failed'] = [];
+
+  if (options.backupDir && toDelete.length > 0) {
+    const backup = await backupVersions(
+      api,
+      scriptName,
+      toDelete,
+      options.backupDir,
+      options.onBackupProgress
+    );
+    options.onBackup?.(backup);
+
+    const byId = new Map(toDelete.map((v) => [v.id, v]));
+    for (const { id, error } of backup.failed) {
+      const item = byId.get(id);
+      const failure = { id, error: `Backup failed: ${error}` };
+      options.checkpoint?.record(scriptName, id, failure.error);
+      if (item) {
+        options.onOutcome?.(item, failure);
+        backupFailures.push({ item, error: failure.error });
+      }
+    }
+
+    const saved = new Set(backup.saved.map((b) => b.id));
+    targets = toDelete.filter((v) => saved.has(v.id));
+  }
+
+  const result = await executeCleanup(
+    scriptName,
+    targets,
+    (ids, onProgress, onSettled) =>
+      api.deleteVersions(scriptName, ids, onProgress, onSettled),
+    options
+  );
+  return { ...result, failed: [...backupFailures, ...result.failed] };
+}
+
+/**
+ * Delete the deployments selected by a plan
+ * Failures are returned, not thrown.
+ */
+export async function executeDeploymentCleanup(
+  api: CloudflareAPI,
+  plan: Pick<DeploymentCleanupPlan, 'scriptName' | 'toDelete'>,
+  options: ExecuteOptions<Deployment> = {}
+): Promise<CleanupResult<Deployment>> {
+  const { scriptName } = plan;
+  return executeCleanup(
+    scriptName,
+    plan.toDelete,
+    (ids, onProgress, onSettled) =>
+      api.deleteDeployments(scriptName, ids, onProgress, onSettled),
+    options
+  );
+}
+
+/**
+ * Delete Pages deployments of a project
+ * Failures are returned, not thrown.
+ */
+export async function executePagesDeploymentCleanup(
+  api: CloudflareAPI,
+  plan: { projectName: string; toDelete: PagesDeployment[] },
+  options: ExecuteOptions<PagesDeployment> = {}
+): Promise<CleanupResult<PagesDeployment>> {
+  const { projectName } = plan;
+  return executeCleanup(
+    projectName,
+    plan.toDelete,
+    (ids, onProgress, onSettled) =>
+      api.deletePagesDeployments(projectName, ids, onProgress, onSettled),
+    options
+  );
+}
@@ -1,10 +1,42 @@
 /**
  * Cloudflare API client for Workers deployments management
  */
+import {
+  computeBackoff,
+  isRetryableStatus,
+  parseRateLimitWait,
+  parseRetryAfter,
+  resolveRetryOptions,
+  type RetryOptions,
+} from './retry.js';
+import {
+  runBulk,
+  TokenBucket,
+  type BulkDeleteResult,
+  type BulkProgressCallback,
+  type BulkSettledCallback,
+} from './bulk.js';
+
+export type {
+  BulkDeleteResult,
+  BulkFailure,
+  BulkProgressCallback,
+  BulkSettledCallback,
+} from './bulk.js';
 
 export interface CloudflareConfig {
   accountId: string;
   apiToken: string;
+  /** API root (default: https://api.cloudflare.com/client/v4) */
+  baseUrl?: string;
+  /** fetch implementation to send requests with (default: global fetch) */
+  fetch?: typeof fetch;
+  /** Retry policy overrides (defaults: 5 retries, 500ms base, 60s max delay) */
+  retry?: Partial<RetryOptions>;
+  /** Number of deletions in flight at once (default: 1) */
+  concurrency?: number;
+  /** Sustained request rate for bulk operations (default: 4 per second) */
+  requestsPerSecond?: number;
 }
 
 export interface DeploymentVersion {
@@ -19,6 +51,20 @@ export interface Deployment {
   source: string;
   strategy: string;
   versions: DeploymentVersion[];
+  annotations?: {
+    'workers/message'?: string;
+    'workers/triggered_by'?: string;
+  };
+}
+
+/**
+ * Traffic split and annotation for a new deployment
+ */
+export interface CreateDeploymentRequest {
+  /** Percentages must add up to 100 */
+  versions: DeploymentVersion[];
+  /** Stored as the deployment's workers/message annotation */
+  message?: string;
 }
 
 /**
@@ -39,24 +85,177 @@ export interface Version {
     'workers/triggered_by'?: string;
     'workers/message'?: string;
     'workers/tag'?: string;
+    /** Preview alias, served at <alias>-<script>.<subdomain>.workers.dev */
+    'workers/alias'?: string;
+  };
+}
+
+/**
+ * Worker Version detail - a version with the resources it was uploaded with
+ */
+export interface VersionDetail extends Version {
+  resources?: {
+    bindings?: Array<Record<string, unknown>>;
+    script?: Record<string, unknown>;
+    script_runtime?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Raw script content of a version
+ */
+export interface VersionContent {
+  contentType: string;
+  body: Uint8Array;
+}
+
+/**
+ * Worker script - as returned by the scripts list endpoint
+ */
+export interface WorkerScript {
+  id: string;
+  created_on?: string;
+  modified_on?: string;
+}
+
+/**
+ * workers.dev settings of a script
+ */
+export interface ScriptSubdomain {
+  /** Whether <script>.<subdomain>.workers.dev serves the active deployment */
+  enabled: boolean;
+  /** Whether versions and aliases get <prefix>-<script>.<subdomain>.workers.dev preview URLs */
+  previews_enabled: boolean;
+}
+
+export type PagesEnvironment = 'preview' | 'production';
+
+/**
+ * Cloudflare Pages deployment - one build of a project, with its own preview URL
+ */
+export interface PagesDeployment {
+  id: string;
+  short_id?: string;
+  project_name?: string;
+  environment: PagesEnvironment;
+  url?: string;
+  created_on: string;
+  /** Branch and custom URLs that point at this deployment */
+  aliases?: string[] | null;
+  deployment_trigger?: {
+    type?: string;
+    metadata?: {
+      branch?: string;
+      commit_hash?: string;
+      commit_message?: string;
+    };
   };
+  latest_stage?: {
+    name?: string;
+    status?: string;
+  };
+}
+
+/**
+ * Cloudflare Pages project
+ */
+export interface PagesProject {
+  name: string;
+  subdomain?: string;
+  production_branch?: string;
+  /** The deployment currently serving production traffic */
+  canonical_deployment?: PagesDeployment | null;
+  latest_deployment?: PagesDeployment | null;
+}
+
+export interface PagesDeploymentListOptions extends PaginationOptions {
+  /** Only list preview or production deployments */
+  environment?: PagesEnvironment;
 }
 
 interface VersionsResult {
   items: Version[];
 }
 
+interface ResultInfo {
+  page?: number;
+  per_page?: number;
+  count?: number;
+  total_count?: number;
+  total_pages?: number;
+  cursor?: string;
+}
+
 interface CloudflareResponse<T> {
   success: boolean;
   result: T;
+  result_info?: ResultInfo;
   errors: Array<{ code: number; message: string }>;
   messages: string[];
 }
 
+interface Page<T> {
+  items: T[];
+  totalCount?: number;
+}
+
+export interface PaginationOptions {
+  /** Number of items requested per page (default: 100) */
+  pageSize?: number;
+  /** Upper limit on the number of items collected (default: 10,000) */
+  maxItems?: number;
+}
+
+export interface PaginatedList<T> {
+  items: T[];
+  /** Total number of items reported by the API (at least items.length) */
+  totalCount: number;
+  /** True when maxItems stopped collection before the last page */
+  truncated: boolean;
+}
+
+const DEFAULT_BASE_URL = 'https://api.cloudflare.com/client/v4';
+const DEFAULT_PAGE_SIZE = 100;
+const DEFAULT_MAX_ITEMS = 10_000;
+// Cloudflare allows 1,200 requests per 5 minutes
+const DEFAULT_REQUESTS_PER_SECOND = 4;
+
 interface DeploymentsResult {
   deployments: Deployment[];
 }
 
+/**
+ * Describe a 404 in terms of the resource the endpoint addresses
+ */
+function notFoundMessage(endpoint: string): string {
+  const path = endpoint.split('?')[0];
+
+  const pages = /\/pages\/projects\/([^/]+)(?:\/deployments\/([^/]+))?/.exec(
+    path
+  );
+  if (pages) {
+    const [, projectName, deploymentId] = pages;
+    return deploymentId
+      ? `Pages deployment "${deploymentId}" not found in project "${projectName}". Please check the deployment ID, project name and account ID.`
+      : `Pages project "${projectName}" not found. Please check the project name and account ID.`;
+  }
+
+  const script =
+    /\/workers\/scripts\/([^/]+)(?:\/(versions|deployments)\/([^/]+))?/.exec(
+      path
+    );
+  if (script) {
+    const [, scriptName, collection, id] = script;
+    if (id) {
+      const resource = collection === 'versions' ? 'Version' : 'Deployment';
+      return `${resource} "${id}" not found for script "${scriptName}". Please check the ${resource.toLowerCase()} ID, script name and account ID.`;
+    }
+    return `Script "${scriptName}" not found. Please check the script name and account ID.`;
+  }
+
+  return 'Resource not found. Please check the account ID.';
+}
+
 export class CloudflareAPIError extends Error {
   constructor(
     message: string,
@@ -77,10 +276,24 @@ export class RateLimitError extends CloudflareAPIError {
 }
 
 export class CloudflareAPI {
-  private baseUrl = 'https://api.cloudflare.com/client/v4';
+  private baseUrl: string;
+  private fetchImpl: typeof fetch;
   private requestDelay = 200; // ms between requests to avoid rate limiting
-
-  constructor(private config: CloudflareConfig) {}
+  private retry: RetryOptions;
+  private rateLimitedUntil = 0;
+  private concurrency: number;
+  private limiter: TokenBucket;
+
+  constructor(private config: CloudflareConfig) {
+    this.baseUrl = (config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.fetchImpl = config.fetch ?? ((input, init) => fetch(input, init));
+    this.retry = resolveRetryOptions(config.retry);
+    this.concurrency = Math.max(1, config.concurrency ?? 1);
+    this.limiter = new TokenBucket(
+      config.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND,
+      this.concurrency
+    );
+  }
 
   /**
    * Sanitize error messages to prevent token leakage
@@ -96,38 +309,18 @@ export class CloudflareAPI {
     endpoint: string,
     options: RequestInit = {}
   ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
-
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        Authorization: `Bearer ${this.config.apiToken}`,
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-    });
-
-    // Handle rate limiting
-    if (response.status === 429) {
-      const retryAfter = response.headers.get('Retry-After');
-      throw new RateLimitError(retryAfter ? parseInt(retryAfter, 10) : undefined);
-    }
-
-    // Handle permission errors
-    if (response.status === 403) {
-      throw new CloudflareAPIError(
-        'Permission denied. Please check your API token has the required permissions (Workers Scripts: Read and Edit).',
-        403
-      );
-    }
+    const data = await this.send<T>(endpoint, options);
+    return data.result;
+  }
 
-    // Handle not found
-    if (response.status === 404) {
-      throw new CloudflareAPIError(
-        'Resource not found. Please check the script name and account ID.',
-        404
-      );
-    }
+  /**
+   * Make an authenticated request and return the full response envelope
+   */
+  private async send<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<CloudflareResponse<T>> {
+    const response = await this.fetchRaw(endpoint, options);
 
     let data: CloudflareResponse<T>;
     try {
@@ -149,17 +342,354 @@ export class CloudflareAPI {
       );
     }
 
-    return data.result;
+    return data;
+  }
+
+  /**
+   * Make an authenticated request, handling rate limit, permission and
+   * not-found statuses, and return the raw response
+   * POST and PATCH may have taken effect before a timeout or 5xx, so they are
+   * retried only on 429. A DELETE that finds nothing after a retry is treated
+   * as already deleted by the earlier attempt.
+   */
+  private async fetchRaw(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<Response> {
+    const url = `${this.baseUrl}${endpoint}`;
+    const method = (options.method ?? 'GET').toUpperCase();
+    const idempotent = method !== 'POST' && method !== 'PATCH';
+
+    let response: Response;
+    let attempt = 0;
+    for (; ; attempt++) {
+      // Wait out an exhausted rate-limit quota reported by earlier responses
+      const quotaWait = this.rateLimitedUntil - Date.now();
+      if (quotaWait > 0) {
+        await this.delay(quotaWait);
+      }
+
+      try {
+        response = await this.fetchImpl(url, {
+          ...options,
+          headers: {
+            Authorization: `Bearer ${this.config.apiToken}`,
+            'Content-Type': 'application/json',
+            ...options.headers,
+          },
+        });
+      } catch (error) {
+        // Network failure - retry with backoff
+        if (idempotent && attempt < this.retry.maxRetries) {
+          await this.delay(computeBackoff(attempt, this.retry));
+          continue;
+        }
+        throw new CloudflareAPIError(
+          `Network error: ${this.formatError(error)}`
+        );
+      }
+
+      const rateLimitWait = parseRateLimitWait(response.headers);
+      if (rateLimitWait !== undefined) {
+        this.rateLimitedUntil = Date.now() + rateLimitWait;
+      }
+
+      const retryable = idempotent
+        ? isRetryableStatus(response.status)
+        : response.status === 429;
+      if (!retryable || attempt >= this.retry.maxRetries) {
+        break;
+      }
+
+      // Rate limited or transient server error - honour Retry-After (up to
+      // maxDelayMs), else back off
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      await this.delay(
+        retryAfter !== undefined
+          ? Math.min(retryAfter, this.retry.maxDelayMs)
+          : computeBackoff(attempt, this.retry)
+      );
+    }
+
+    // Handle rate limiting once retries are exhausted
+    if (response.status === 429) {
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      throw new RateLimitError(
+        retryAfter !== undefined ? Math.ceil(retryAfter / 1000) : undefined
+      );
+    }
+
+    // Handle permission errors
+    if (response.status === 403) {
+      throw new CloudflareAPIError(
+        'Permission denied. Please check your API token has the required permissions (Workers Scripts: Read and Edit).',
+        403
+      );
+    }
+
+    // The earlier attempt deleted it before failing to report back
+    if (response.status === 404 && method === 'DELETE' && attempt > 0) {
+      return Response.json({
+        success: true,
+        result: null,
+        errors: [],
+        messages: [],
+      } satisfies CloudflareResponse<null>);
+    }
+
+    // Handle not found
+    if (response.status === 404) {
+      throw new CloudflareAPIError(this.sanitize(notFoundMessage(endpoint)), 404);
+    }
+
+    return response;
+  }
+
+  /**
+   * Fetch every page of a list endpoint
+   * Follows cursor-based pagination when the API returns a cursor,
+   * otherwise page/per_page. Endpoints without result_info are single-page.
+   */
+  private async *paginate<R, T>(
+    endpoint: string,
+    extract: (result: R) => T[],
+    pageSize: number,
+    query: Record<string, string> = {}
+  ): AsyncGenerator<Page<T>> {
+    let page = 1;
+    let cursor: string | undefined;
+    let fetched = 0;
+
+    for (;;) {
+      const params = new URLSearchParams({
+        ...query,
+        per_page: String(pageSize),
+      });
+      if (cursor) {
+        params.set('cursor', cursor);
+      } else {
+        params.set('page', String(page));
+      }
+
+      const data = await this.send<R>(`${endpoint}?${params}`);
+      const items = extract(data.result) ?? [];
+      const info = data.result_info;
+      fetched += items.length;
+
+      yield { items, totalCount: info?.total_count };
+
+      if (!info || items.length === 0) {
+        return;
+      }
+
+      if (cursor !== undefined || info.cursor) {
+        if (!info.cursor || info.cursor === cursor) {
+          return;
+        }
+        cursor = info.cursor;
+      } else {
+        const lastPage =
+          info.total_pages !== undefined
+            ? page >= info.total_pages
+            : info.total_count !== undefined
+              ? fetched >= info.total_count
+              : items.length < (info.per_page ?? pageSize);
+        if (lastPage) {
+          return;
+        }
+        page++;
+      }
+
+      await this.delay(this.requestDelay);
+    }
+  }
+
+  /**
+   * Iterate over items across pages, stopping at maxItems
+   */
+  private async *iterate<T>(
+    pages: AsyncIterable<Page<T>>,
+    maxItems: number
+  ): AsyncGenerator<T> {
+    let yielded = 0;
+    for await (const page of pages) {
+      for (const item of page.items) {
+        if (yielded >= maxItems) {
+          return;
+        }
+        yielded++;
+        yield item;
+      }
+    }
+  }
+
+  /**
+   * Collect items across pages into a single list, stopping at maxItems
+   */
+  private async collectAll<T>(
+    pages: AsyncIterable<Page<T>>,
+    maxItems = DEFAULT_MAX_ITEMS
+  ): Promise<PaginatedList<T>> {
+    const items: T[] = [];
+    let totalCount: number | undefined;
+    let truncated = false;
+
+    outer: for await (const page of pages) {
+      totalCount = page.totalCount ?? totalCount;
+      for (const item of page.items) {
+        if (items.length >= maxItems) {
+          truncated = true;
+          break outer;
+        }
+        items.push(item);
+      }
+    }
+
+    return {
+      items,
+      totalCount: Math.max(totalCount ?? 0, items.length),
+      truncated,
+    };
+  }
+
+  private scriptPages(
+    options: PaginationOptions
+  ): AsyncGenerator<Page<WorkerScript>> {
+    return this.paginate<WorkerScript[], WorkerScript>(
+      `/accounts/${this.config.accountId}/workers/scripts`,
+      (result) => result,
+      options.pageSize ?? DEFAULT_PAGE_SIZE
+    );
+  }
+
+  private deploymentPages(
+    scriptName: string,
+    options: PaginationOptions
+  ): AsyncGenerator<Page<Deployment>> {
+    return this.paginate<DeploymentsResult, Deployment>(
+      `/accounts/${this.config.accountId}/workers/scripts/${scriptName}/deployments`,
+      (result) => result.deployments,
+      options.pageSize ?? DEFAULT_PAGE_SIZE
+    );
+  }
+
+  private versionPages(
+    scriptName: string,
+    options: PaginationOptions
+  ): AsyncGenerator<Page<Version>> {
+    return this.paginate<VersionsResult, Version>(
+      `/accounts/${this.config.accountId}/workers/scripts/${scriptName}/versions`,
+      (result) => result.items,
+      options.pageSize ?? DEFAULT_PAGE_SIZE
+    );
+  }
+
+  private pagesDeploymentPages(
+    projectName: string,
+    options: PagesDeploymentListOptions
+  ): AsyncGenerator<Page<PagesDeployment>> {
+    return this.paginate<PagesDeployment[], PagesDeployment>(
+      `/accounts/${this.config.accountId}/pages/projects/${projectName}/deployments`,
+      (result) => result,
+      options.pageSize ?? DEFAULT_PAGE_SIZE,
+      options.environment ? { env: options.environment } : {}
+    );
+  }
+
+  /**
+   * List all Worker scripts in the account
+   */
+  async listScripts(
+    options: PaginationOptions = {}
+  ): Promise<PaginatedList<WorkerScript>> {
+    return this.collectAll(this.scriptPages(options), options.maxItems);
+  }
+
+  /**
+   * Get the account's workers.dev subdomain (the <subdomain> in <script>.<subdomain>.workers.dev)
+   */
+  async getWorkersSubdomain(): Promise<string> {
+    const result = await this.request<{ subdomain: string }>(
+      `/accounts/${this.config.accountId}/workers/subdomain`
+    );
+    return result.subdomain;
+  }
+
+  /**
+   * Get whether a script is served on workers.dev and whether it has preview URLs
+   */
+  async getScriptSubdomain(scriptName: string): Promise<ScriptSubdomain> {
+    return this.request<ScriptSubdomain>(
+      `/accounts/${this.config.accountId}/workers/scripts/${scriptName}/subdomain`
+    );
+  }
+
+  /**
+   * Turn a script's workers.dev route and preview URLs on or off
+   * Disabling previews stops new preview URLs from being created and takes
+   * existing ones offline; it does not delete any version.
+   */
+  async setScriptSubdomain(
+    scriptName: string,
+    settings: ScriptSubdomain
+  ): Promise<ScriptSubdomain> {
+    return this.request<ScriptSubdomain>(
+      `/accounts/${this.config.accountId}/workers/scripts/${scriptName}/subdomain`,
+      {
+        method: 'POST',
+        body: JSON.stringify(settings),
+      }
+    );
+  }
+
+  /**
+   * Iterate over all deployments for a Worker script, page by page
+   */
+  iterateDeployments(
+    scriptName: string,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<Deployment> {
+    return this.iterate(
+      this.deploymentPages(scriptName, options),
+      options.maxItems ?? DEFAULT_MAX_ITEMS
+    );
   }
 
   /**
    * List all deployments for a Worker script
+   * The first deployment in the list is the currently active one
    */
-  async listDeployments(scriptName: string): Promise<Deployment[]> {
-    const result = await this.request<DeploymentsResult>(
-      `/accounts/${this.config.accountId}/workers/scripts/${scriptName}/deployments`
+  async listDeployments(
+    scriptName: string,
+    options: PaginationOptions = {}
+  ): Promise<PaginatedList<Deployment>> {
+    return this.collectAll(
+      this.deploymentPages(scriptName, options),
+      options.maxItems
+    );
+  }
+
+  /**
+   * Create a deployment that routes traffic to the given versions
+   * The new deployment becomes the active one.
+   */
+  async createDeployment(
+    scriptName: string,
+    deployment: CreateDeploymentRequest
+  ): Promise<Deployment> {
+    return this.request<Deployment>(
+      `/accounts/${this.config.accountId}/workers/scripts/${scriptName}/deployments`,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          strategy: 'percentage',
+          versions: deployment.versions,
+          ...(deployment.message
+            ? { annotations: { 'workers/message': deployment.message } }
+            : {}),
+        }),
+      }
     );
-    return result.deployments;
   }
 
   /**
@@ -176,16 +706,78 @@ export class CloudflareAPI {
     );
   }
 
+  /**
+   * Iterate over all versions for a Worker script, page by page
+   */
+  iterateVersions(
+    scriptName: string,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<Version> {
+    return this.iterate(
+      this.versionPages(scriptName, options),
+      options.maxItems ?? DEFAULT_MAX_ITEMS
+    );
+  }
+
   /**
    * List all versions for a Worker script
    * Versions are immutable snapshots of code and configuration
-   * The first version in the list is the latest (currently deployed) version
+   * The first version in the list is the latest version
    */
-  async listVersions(scriptName: string): Promise<Version[]> {
-    const result = await this.request<VersionsResult>(
-      `/accounts/${this.config.accountId}/workers/scripts/${scriptName}/versions`
+  async listVersions(
+    scriptName: string,
+    options: PaginationOptions = {}
+  ): Promise<PaginatedList<Version>> {
+    return this.collectAll(
+      this.versionPages(scriptName, options),
+      options.maxItems
     );
-    return result.items;
+  }
+
+  /**
+   * Get the full detail of a version, including bindings and script metadata
+   */
+  async getVersion(
+    scriptName: string,
+    versionId: string
+  ): Promise<VersionDetail> {
+    return this.request<VersionDetail>(
+      `/accounts/${this.config.accountId}/workers/scripts/${scriptName}/versions/${versionId}`
+    );
+  }
+
+  /**
+   * Get the script content a version was uploaded with
+   * Returns undefined when the API does not expose content for the version
+   * (404); any other failure is thrown.
+   */
+  async getVersionContent(
+    scriptName: string,
+    versionId: string
+  ): Promise<VersionContent | undefined> {
+    try {
+      const response = await this.fetchRaw(
+        `/accounts/${this.config.accountId}/workers/scripts/${scriptName}/versions/${versionId}/content`
+      );
+      if (!response.ok) {
+        throw new CloudflareAPIError(
+          this.sanitize(
+            `Failed to fetch version content: ${response.status} ${response.statusText}`
+          ),
+          response.status
+        );
+      }
+      return {
+        contentType:
+          response.headers.get('Content-Type') ?? 'application/octet-stream',
+        body: new Uint8Array(await response.arrayBuffer()),
+      };
+    } catch (error) {
+      if (error instanceof CloudflareAPIError && error.statusCode === 404) {
+        return undefined;
+      }
+      throw error;
+    }
   }
 
   /**
@@ -203,58 +795,74 @@ export class CloudflareAPI {
   }
 
   /**
-   * Attempt to delete a version, returning success status
+   * Delete multiple versions with bounded concurrency and rate limiting
    */
-  private async tryDeleteVersion(
+  async deleteVersions(
     scriptName: string,
-    id: string
-  ): Promise<{ success: true } | { success: false; error: string; isRateLimit?: boolean; retryAfter?: number }> {
-    try {
-      await this.deleteVersion(scriptName, id);
-      return { success: true };
-    } catch (error) {
-      const isRateLimit = error instanceof RateLimitError;
-      const retryAfter = isRateLimit ? (error as RateLimitError).retryAfter : undefined;
-      return { success: false, error: this.formatError(error), isRateLimit, retryAfter };
-    }
+    versionIds: string[],
+    onProgress?: BulkProgressCallback,
+    onSettled?: BulkSettledCallback
+  ): Promise<BulkDeleteResult> {
+    return this.bulk(
+      versionIds,
+      (id) => this.deleteVersion(scriptName, id),
+      onProgress,
+      onSettled
+    );
   }
 
   /**
-   * Delete multiple versions with rate limiting protection
+   * Get a Pages project, including its current production deployment
    */
-  async deleteVersions(
-    scriptName: string,
-    versionIds: string[],
-    onProgress?: (completed: number, total: number, id: string) => void
-  ): Promise<{ success: string[]; failed: Array<{ id: string; error: string }> }> {
-    const success: string[] = [];
-    const failed: Array<{ id: string; error: string }> = [];
-
-    for (let i = 0; i < versionIds.length; i++) {
-      const id = versionIds[i];
-      let result = await this.tryDeleteVersion(scriptName, id);
-
-      // Retry once on rate limit error
-      if (!result.success && result.isRateLimit) {
-        const waitTime = (result.retryAfter || 60) * 1000;
-        await this.delay(waitTime);
-        result = await this.tryDeleteVersion(scriptName, id);
-      }
+  async getPagesProject(projectName: string): Promise<PagesProject> {
+    return this.request<PagesProject>(
+      `/accounts/${this.config.accountId}/pages/projects/${projectName}`
+    );
+  }
 
-      if (result.success) {
-        success.push(id);
-        onProgress?.(i + 1, versionIds.length, id);
-      } else {
-        failed.push({ id, error: result.error });
-      }
+  /**
+   * List all deployments of a Pages project, newest first
+   */
+  async listPagesDeployments(
+    projectName: string,
+    options: PagesDeploymentListOptions = {}
+  ): Promise<PaginatedList<PagesDeployment>> {
+    return this.collectAll(
+      this.pagesDeploymentPages(projectName, options),
+      options.maxItems
+    );
+  }
 
-      // Add delay between requests to avoid rate limiting
-      if (i < versionIds.length - 1) {
-        await this.delay(this.requestDelay);
-      }
-    }
+  /**
+   * Delete a specific Pages deployment
+   * Note: The API refuses to delete the production deployment and deployments
+   * that a branch alias still points at
+   */
+  async deletePagesDeployment(
+    projectName: string,
+    deploymentId: string
+  ): Promise<void> {
+    await this.request(
+      `/accounts/${this.config.accountId}/pages/projects/${projectName}/deployments/${deploymentId}`,
+      { method: 'DELETE' }
+    );
+  }
 
-    return { success, failed };
+  /**
+   * Delete multiple Pages deployments with bounded concurrency and rate limiting
+   */
+  async deletePagesDeployments(
+    projectName: string,
+    deploymentIds: string[],
+    onProgress?: BulkProgressCallback,
+    onSettled?: BulkSettledCallback
+  ): Promise<BulkDeleteResult> {
+    return this.bulk(
+      deploymentIds,
+      (id) => this.deletePagesDeployment(projectName, id),
+      onProgress,
+      onSettled
+    );
   }
 
   /**
@@ -267,58 +875,47 @@ export class CloudflareAPI {
   }
 
   /**
-   * Attempt to delete a deployment, returning success status
+   * Delete multiple deployments with bounded concurrency and rate limiting
    */
-  private async tryDelete(
+  async deleteDeployments(
     scriptName: string,
-    id: string
-  ): Promise<{ success: true } | { success: false; error: string; isRateLimit?: boolean; retryAfter?: number }> {
-    try {
-      await this.deleteDeployment(scriptName, id);
-      return { success: true };
-    } catch (error) {
-      const isRateLimit = error instanceof RateLimitError;
-      const retryAfter = isRateLimit ? (error as RateLimitError).retryAfter : undefined;
-      return { success: false, error: this.formatError(error), isRateLimit, retryAfter };
-    }
+    deploymentIds: string[],
+    onProgress?: BulkProgressCallback,
+    onSettled?: BulkSettledCallback
+  ): Promise<BulkDeleteResult> {
+    return this.bulk(
+      deploymentIds,
+      (id) => this.deleteDeployment(scriptName, id),
+      onProgress,
+      onSettled
+    );
   }
 
   /**
-   * Delete multiple deployments with rate limiting protection
+   * Run a bulk operation through the shared engine
+   * Rate limits and transient errors are retried by the request layer;
+   * anything left is recorded as a failure.
    */
-  async deleteDeployments(
-    scriptName: string,
-    deploymentIds: string[],
-    onProgress?: (completed: number, total: number, id: string) => void
-  ): Promise<{ success: string[]; failed: Array<{ id: string; error: string }> }> {
-    const success: string[] = [];
-    const failed: Array<{ id: string; error: string }> = [];
-
-    for (let i = 0; i < deploymentIds.length; i++) {
-      const id = deploymentIds[i];
-      let result = await this.tryDelete(scriptName, id);
-
-      // Retry once on rate limit error
-      if (!result.success && result.isRateLimit) {
-        const waitTime = (result.retryAfter || 60) * 1000;
-        await this.delay(waitTime);
-        result = await this.tryDelete(scriptName, id);
-      }
-
-      if (result.success) {
-        success.push(id);
-        onProgress?.(i + 1, deploymentIds.length, id);
-      } else {
-        failed.push({ id, error: result.error });
-      }
-
-      // Add delay between requests to avoid rate limiting
-      if (i < deploymentIds.length - 1) {
-        await this.delay(this.requestDelay);
-      }
-    }
-
-    return { success, failed };
+  private bulk(
+    ids: string[],
+    operation: (id: string) => Promise<void>,
+    onProgress?: BulkProgressCallback,
+    onSettled?: BulkSettledCallback
+  ): Promise<BulkDeleteResult> {
+    return runBulk(ids, operation, {
+      concurrency: this.concurrency,
+      limiter: this.limiter,
+      onProgress,
+      onSettled,
+      describeError: (error) => ({
+        error: this.formatError(error),
+        status: error instanceof CloudflareAPIError ? error.statusCode : undefined,
+        code:
+          error instanceof CloudflareAPIError
+            ? error.errors?.[0]?.code
+            : undefined,
+      }),
+    });
   }
 
   private delay(ms: number): Promise<void> {
@@ -3,6 +3,164 @@ export {
   CloudflareAPIError,
   RateLimitError,
   type CloudflareConfig,
+  type CreateDeploymentRequest,
   type Deployment,
   type DeploymentVersion,
+  type PagesDeployment,
+  type PagesDeploymentListOptions,
+  type PagesEnvironment,
+  type PagesProject,
+  type PaginatedList,
+  type PaginationOptions,
+  type ScriptSubdomain,
+  type Version,
+  type VersionContent,
+  type VersionDetail,
+  type WorkerScript,
 } from './cloudflare-api.js';
+export {
+  getProtectedVersions,
+  mergeProtectionRules,
+  partitionVersions,
+  ProtectionRulesSchema,
+  type ProtectedVersions,
+  type ProtectionOptions,
+  type ProtectionRules,
+  unmatchedPins,
+} from './protection.js';
+export {
+  hasSelectionCriteria,
+  selectDeployments,
+  selectVersions,
+  type SelectionCriteria,
+} from './selection.js';
+export {
+  findVersion,
+  loadVersionInventory,
+  type VersionInventory,
+} from './inventory.js';
+export {
+  createVersionPlan,
+  fingerprintInventory,
+  readPlan,
+  verifyPlan,
+  writePlan,
+  PlanError,
+  PLAN_FORMAT_VERSION,
+  type DeletionPlan,
+} from './plan.js';
+export {
+  filterScripts,
+  scanScripts,
+  type ScriptFilter,
+  type ScriptScanResult,
+} from './scan.js';
+export {
+  AuditRecorder,
+  deploymentAuditRecorder,
+  getAuditLogPath,
+  getOperatorIdentity,
+  pagesDeploymentAuditRecorder,
+  readAuditLog,
+  versionAuditRecorder,
+  writeAuditLog,
+  type AuditContext,
+  type AuditEntry,
+  type AuditFilter,
+} from './audit.js';
+export {
+  backupVersion,
+  backupVersions,
+  type BackupResult,
+  type BackupSummary,
+} from './backup.js';
+export {
+  computeBackoff,
+  DEFAULT_RETRY_OPTIONS,
+  isRetryableStatus,
+  parseRateLimitWait,
+  parseRetryAfter,
+  resolveRetryOptions,
+  type RetryOptions,
+} from './retry.js';
+export {
+  runBulk,
+  TokenBucket,
+  type BulkDeleteResult,
+  type BulkFailure,
+  type BulkOptions,
+  type BulkProgressCallback,
+  type BulkSettledCallback,
+} from './bulk.js';
+export {
+  createCheckpoint,
+  CheckpointError,
+  CheckpointRecorder,
+  CHECKPOINT_FORMAT_VERSION,
+  getLastRunPath,
+  readCheckpoint,
+  remainingItems,
+  writeCheckpoint,
+  type Checkpoint,
+  type CheckpointItem,
+} from './checkpoint.js';
+export { getStateDir } from './state.js';
+export {
+  deploymentReferences,
+  formatDeploymentReferences,
+  formatTrafficSplit,
+  MAX_SPLIT_VERSIONS,
+  resolveTrafficSplit,
+  TrafficSplitError,
+  type DeploymentReference,
+  type TrafficEntry,
+} from './traffic.js';
+export {
+  safetyGuardFor,
+  SafetyGuardError,
+  type SafetyGuard,
+  type SafetyRules,
+} from './safety.js';
+export {
+  executeDeploymentCleanup,
+  executePagesDeploymentCleanup,
+  executeVersionCleanup,
+  planDeploymentCleanup,
+  planVersionCleanup,
+  selectCleanupDeployments,
+  selectCleanupVersions,
+  type CleanupOptions,
+  type CleanupResult,
+  type DeploymentCleanupPlan,
+  type ExecuteOptions,
+  type VersionCleanupPlan,
+  type VersionExecuteOptions,
+} from './cleanup.js';
+export {
+  filterPagesDeployments,
+  getProtectedPagesDeployments,
+  loadPagesInventory,
+  pagesBranch,
+  type PagesFilter,
+  type PagesInventory,
+  type ProtectedPagesDeployments,
+} from './pages.js';
+export {
+  aliasPreviewUrl,
+  createHttpProber,
+  previewState,
+  previewUrlsFor,
+  updatePreviewSettings,
+  updateScriptPreviewSettings,
+  verifyPreviewUrls,
+  versionPreviewUrl,
+  type HttpProberOptions,
+  type PreviewCheck,
+  type PreviewProber,
+  type PreviewSettingsChange,
+  type PreviewSettingsResult,
+  type PreviewState,
+  type PreviewUrl,
+  type ProbeResult,
+  type UpdatePreviewSettingsOptions,
+} from './previews.js';
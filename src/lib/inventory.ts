@@ -0,0 +1,88 @@
+/**
+ * Version inventory - the fetched state of a Worker script's versions and deployments
+ */
+import type { CloudflareAPI, Deployment, Version } from './cloudflare-api.js';
+import {
+  getProtectedVersions,
+  partitionVersions,
+  type ProtectedVersions,
+  type ProtectionOptions,
+  unmatchedPins,
+} from './protection.js';
+
+export interface VersionInventory {
+  scriptName: string;
+  deployments: Deployment[];
+  versions: Version[];
+  /** Total number of versions reported by the API */
+  totalCount: number;
+  /** True when not every version could be loaded */
+  truncated: boolean;
+  protectedVersions: ProtectedVersions;
+  deletable: Version[];
+  /** Pins matching none of the versions; empty when the list is truncated */
+  unmatchedPins: string[];
+}
+
+/**
+ * Load deployments and versions for a script and work out which versions are protected
+ * Deployments are loaded first because they decide which versions are serving traffic.
+ */
+export async function loadVersionInventory(
+  api: CloudflareAPI,
+  scriptName: string,
+  options: ProtectionOptions & {
+    onProgress?: (stage: 'deployments' | 'versions') => void;
+  } = {}
+): Promise<VersionInventory> {
+  options.onProgress?.('deployments');
+  const { items: deployments } = await api.listDeployments(scriptName);
+
+  options.onProgress?.('versions');
+  const {
+    items: versions,
+    totalCount,
+    truncated,
+  } = await api.listVersions(scriptName);
+
+  const protectedVersions = getProtectedVersions(versions, deployments, {
+    recentDeployments: options.recentDeployments,
+    rules: options.rules,
+  });
+  const { deletable } = partitionVersions(versions, protectedVersions);
+
+  return {
+    scriptName,
+    deployments,
+    versions,
+    totalCount,
+    truncated,
+    protectedVersions,
+    deletable,
+    unmatchedPins:
+      options.rules && !truncated ? unmatchedPins(versions, options.rules) : [],
+  };
+}
+
+/**
+ * Find a version by its full ID or a unique ID prefix
+ * Returns undefined when nothing matches.
+ * @throws {Error} if the prefix matches more than one version
+ */
+export function findVersion(
+  versions: Version[],
+  idOrPrefix: string
+): Version | undefined {
+  const exact = versions.find((v) => v.id === idOrPrefix);
+  if (exact) {
+    return exact;
+  }
+
+  const matches = versions.filter((v) => v.id.startsWith(idOrPrefix));
+  if (matches.length > 1) {
+    throw new Error(
+      `Version ID prefix "${idOrPrefix}" is ambiguous (${matches.length} versions match). Use more characters.`
+    );
+  }
+  return matches[0];
+}
@@ -0,0 +1,130 @@
+/**
+ * Pages deployment selection - which deployments of a Pages project may be deleted
+ */
+import { matchesGlob } from '../utils/glob.js';
+import type {
+  CloudflareAPI,
+  PagesDeployment,
+  PagesEnvironment,
+  PagesProject,
+} from './cloudflare-api.js';
+
+/**
+ * Deployment IDs that must not be deleted, mapped to the reason
+ */
+export type ProtectedPagesDeployments = Map<string, string>;
+
+export interface PagesInventory {
+  project: PagesProject;
+  /** Every deployment of the project, newest first */
+  deployments: PagesDeployment[];
+  /** Total number of deployments reported by the API */
+  totalCount: number;
+  /** True when not every deployment could be loaded */
+  truncated: boolean;
+  protectedDeployments: ProtectedPagesDeployments;
+}
+
+export interface PagesFilter {
+  /** Only include deployments of branches matching this glob */
+  branch?: string;
+  /** Only include preview or production deployments */
+  environment?: PagesEnvironment;
+}
+
+/**
+ * Branch a deployment was built from, if known
+ */
+export function pagesBranch(deployment: PagesDeployment): string | undefined {
+  return deployment.deployment_trigger?.metadata?.branch || undefined;
+}
+
+/**
+ * Work out which deployments of a project are protected
+ *
+ * The project's current production deployment is protected, as is the
+ * newest deployment of every branch, because the branch alias URL
+ * (<branch>.<project>.pages.dev) points at it. Pass the full, unfiltered
+ * list so that "newest" is judged against every deployment of the branch.
+ */
+export function getProtectedPagesDeployments(
+  deployments: PagesDeployment[],
+  project: Pick<PagesProject, 'canonical_deployment'>
+): ProtectedPagesDeployments {
+  const protectedDeployments: ProtectedPagesDeployments = new Map();
+
+  const production = project.canonical_deployment?.id;
+  if (production) {
+    protectedDeployments.set(production, 'PRODUCTION');
+  }
+
+  const newest = new Map<string, PagesDeployment>();
+  for (const deployment of deployments) {
+    const branch = pagesBranch(deployment);
+    if (!branch) {
+      continue;
+    }
+    const current = newest.get(branch);
+    if (
+      !current ||
+      Date.parse(deployment.created_on) > Date.parse(current.created_on)
+    ) {
+      newest.set(branch, deployment);
+    }
+  }
+
+  for (const [branch, deployment] of newest) {
+    if (!protectedDeployments.has(deployment.id)) {
+      protectedDeployments.set(deployment.id, `latest for ${branch}`);
+    }
+  }
+
+  return protectedDeployments;
+}
+
+/**
+ * Keep the deployments matching a branch glob and environment
+ * Deployments without a known branch never match a branch filter.
+ */
+export function filterPagesDeployments(
+  deployments: PagesDeployment[],
+  filter: PagesFilter
+): PagesDeployment[] {
+  return deployments.filter((deployment) => {
+    if (filter.environment && deployment.environment !== filter.environment) {
+      return false;
+    }
+    if (filter.branch) {
+      const branch = pagesBranch(deployment);
+      return branch !== undefined && matchesGlob(branch, filter.branch);
+    }
+    return true;
+  });
+}
+
+/**
+ * Load a Pages project and its deployments and work out which are protected
+ */
+export async function loadPagesInventory(
+  api: CloudflareAPI,
+  projectName: string,
+  options: { onProgress?: (stage: 'project' | 'deployments') => void } = {}
+): Promise<PagesInventory> {
+  options.onProgress?.('project');
+  const project = await api.getPagesProject(projectName);
+
+  options.onProgress?.('deployments');
+  const {
+    items: deployments,
+    totalCount,
+    truncated,
+  } = await api.listPagesDeployments(projectName);
+
+  return {
+    project,
+    deployments,
+    totalCount,
+    truncated,
+    protectedDeployments: getProtectedPagesDeployments(deployments, project),
+  };
+}
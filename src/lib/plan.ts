@@ -0,0 +1,136 @@
+/**
+ * Deletion plans - a reviewable, serialized record of what will be deleted
+ */
+import { createHash } from 'node:crypto';
+import { readFile, writeFile } from 'node:fs/promises';
+import { z } from 'zod';
+import type { VersionInventory } from './inventory.js';
+import { ProtectionRulesSchema, type ProtectionRules } from './protection.js';
+
+export const PLAN_FORMAT_VERSION = 1;
+
+const DeletionPlanSchema = z.object({
+  formatVersion: z.literal(PLAN_FORMAT_VERSION),
+  createdAt: z.string(),
+  accountId: z.string().min(1),
+  scriptName: z.string().min(1),
+  resource: z.literal('versions'),
+  /** Number of recent deployments whose versions were protected */
+  protectRecent: z.number().int().positive(),
+  /** Tag, message and pin rules the plan was made with */
+  protection: ProtectionRulesSchema.optional(),
+  targets: z.array(z.string().min(1)),
+  protected: z.array(z.string().min(1)),
+  /** SHA-256 of the deployments and versions the plan was made from */
+  fingerprint: z.string().min(1),
+});
+
+export type DeletionPlan = z.infer<typeof DeletionPlanSchema>;
+
+export class PlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlanError';
+  }
+}
+
+/**
+ * Fingerprint the fetched state so a plan can detect that it has gone stale
+ * Covers every deployment (in order, with its traffic split) and every version ID.
+ */
+export function fingerprintInventory(inventory: VersionInventory): string {
+  const state = {
+    deployments: inventory.deployments.map((d) => [
+      d.id,
+      (d.versions ?? []).map((v) => [v.version_id, v.percentage]),
+    ]),
+    versions: inventory.versions.map((v) => v.id).sort(),
+  };
+  return createHash('sha256').update(JSON.stringify(state)).digest('hex');
+}
+
+/**
+ * Build a deletion plan for the selected versions
+ */
+export function createVersionPlan(
+  accountId: string,
+  inventory: VersionInventory,
+  targetIds: string[],
+  protectRecent = 1,
+  protection?: ProtectionRules
+): DeletionPlan {
+  return {
+    formatVersion: PLAN_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    accountId,
+    scriptName: inventory.scriptName,
+    resource: 'versions',
+    protectRecent,
+    protection,
+    targets: targetIds,
+    protected: [...inventory.protectedVersions.keys()],
+    fingerprint: fingerprintInventory(inventory),
+  };
+}
+
+/**
+ * Write a plan as pretty-printed JSON
+ */
+export async function writePlan(path: string, plan: DeletionPlan): Promise<void> {
+  await writeFile(path, `${JSON.stringify(plan, null, 2)}\n`, 'utf8');
+}
+
+/**
+ * Read and validate a plan file
+ * @throws {PlanError} if the file is not a valid plan
+ */
+export async function readPlan(path: string): Promise<DeletionPlan> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(path, 'utf8'));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    throw new PlanError(`Failed to read plan file "${path}": ${reason}`);
+  }
+
+  const result = DeletionPlanSchema.safeParse(raw);
+  if (!result.success) {
+    const errors = result.error.errors
+      .map((e) => `  - ${e.path.join('.')}: ${e.message}`)
+      .join('\n');
+    throw new PlanError(`Invalid plan file "${path}":\n${errors}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Check a plan against the live state
+ * @throws {PlanError} if the account, state or protection no longer match
+ */
+export function verifyPlan(
+  plan: DeletionPlan,
+  accountId: string,
+  inventory: VersionInventory
+): void {
+  if (plan.accountId !== accountId) {
+    throw new PlanError(
+      `Plan was created for account ${plan.accountId}, but the current account is ${accountId}.`
+    );
+  }
+
+  if (plan.fingerprint !== fingerprintInventory(inventory)) {
+    throw new PlanError(
+      'The live state of the script no longer matches the plan. Please create a new plan.'
+    );
+  }
+
+  const nowProtected = plan.targets.filter((id) =>
+    inventory.protectedVersions.has(id)
+  );
+  if (nowProtected.length > 0) {
+    throw new PlanError(
+      `Plan targets ${nowProtected.length} protected version(s): ${nowProtected.join(', ')}`
+    );
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Preview URLs - where each version is reachable on workers.dev, and whether it still is
+ */
+import { request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import type {
+  CloudflareAPI,
+  ScriptSubdomain,
+  Version,
+} from './cloudflare-api.js';
+
+export interface PreviewUrl {
+  versionId: string;
+  /** A version's own URL, or a preview alias URL */
+  kind: 'version' | 'alias';
+  url: string;
+  alias?: string;
+}
+
+/**
+ * Outcome of a single HTTP probe: a status, or why no response arrived
+ */
+export interface ProbeResult {
+  status?: number;
+  error?: string;
+}
+
+/**
+ * Probe a URL and report how it answered
+ * Implementations should resolve, not reject, when the request fails.
+ */
+export type PreviewProber = (url: string) => Promise<ProbeResult>;
+
+export type PreviewState = 'responding' | 'gone' | 'unreachable';
+
+export interface PreviewCheck extends PreviewUrl, ProbeResult {
+  state: PreviewState;
+  checkedAt: string;
+}
+
+export interface HttpProberOptions {
+  /** Give up on a probe after this many ms (default: 10,000) */
+  timeoutMs?: number;
+  /**
+   * Send probes to this origin instead of the preview host, keeping the
+   * preview hostname in the Host header (e.g. a specific edge or a local server)
+   */
+  origin?: string;
+}
+
+/**
+ * Settings to apply; fields left out keep their current value
+ */
+export type PreviewSettingsChange = Partial<ScriptSubdomain>;
+
+/**
+ * workers.dev settings of one script, before and after an update
+ * A failure on the script is recorded in `error` instead.
+ */
+export interface PreviewSettingsResult {
+  scriptName: string;
+  before?: ScriptSubdomain;
+  /** Same as `before` when the script was already in the requested state */
+  after?: ScriptSubdomain;
+  changed: boolean;
+  error?: string;
+}
+
+export interface UpdatePreviewSettingsOptions {
+  /** Report what would change without updating anything */
+  dryRun?: boolean;
+  onScript?: (scriptName: string, index: number, total: number) => void;
+}
+
+const DEFAULT_PROBE_TIMEOUT_MS = 10_000;
+
+/**
+ * URL at which a version can be previewed
+ * workers.dev preview URLs use the first 8 characters of the version ID.
+ */
+export function versionPreviewUrl(
+  scriptName: string,
+  subdomain: string,
+  versionId: string
+): string {
+  return `https://${versionId.slice(0, 8)}-${scriptName}.${subdomain}.workers.dev`;
+}
+
+/**
+ * URL at which a preview alias can be reached
+ */
+export function aliasPreviewUrl(
+  scriptName: string,
+  subdomain: string,
+  alias: string
+): string {
+  return `https://${alias}-${scriptName}.${subdomain}.workers.dev`;
+}
+
+/**
+ * Every preview URL of a version: its own, plus its alias if it has one
+ */
+export function previewUrlsFor(
+  scriptName: string,
+  subdomain: string,
+  version: Pick<Version, 'id' | 'annotations'>
+): PreviewUrl[] {
+  const urls: PreviewUrl[] = [
+    {
+      versionId: version.id,
+      kind: 'version',
+      url: versionPreviewUrl(scriptName, subdomain, version.id),
+    },
+  ];
+  const alias = version.annotations?.['workers/alias'];
+  if (alias) {
+    urls.push({
+      versionId: version.id,
+      kind: 'alias',
+      url: aliasPreviewUrl(scriptName, subdomain, alias),
+      alias,
+    });
+  }
+  return urls;
+}
+
+/**
+ * Classify a probe result
+ * Only a 404 or 410 counts as gone; no response at all proves nothing.
+ */
+export function previewState(result: ProbeResult): PreviewState {
+  if (result.status === undefined) {
+    return 'unreachable';
+  }
+  return result.status === 404 || result.status === 410
+    ? 'gone'
+    : 'responding';
+}
+
+/**
+ * Prober that sends a GET request and reports the status without following redirects
+ */
+export function createHttpProber(
+  options: HttpProberOptions = {}
+): PreviewProber {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS;
+
+  return (url) =>
+    new Promise((resolve) => {
+      const target = new URL(url);
+      const via = options.origin ? new URL(options.origin) : target;
+      const send = via.protocol === 'http:' ? httpRequest : httpsRequest;
+
+      const request = send(
+        {
+          protocol: via.protocol,
+          hostname: via.hostname,
+          port: via.port || undefined,
+          path: `${target.pathname}${target.search}`,
+          method: 'GET',
+          headers: { Host: target.host, 'User-Agent': 'cwc-preview-verify' },
+          servername: target.hostname,
+          timeout: timeoutMs,
+        },
+        (response) => {
+          response.resume();
+          resolve({ status: response.statusCode });
+        }
+      );
+      request.on('timeout', () => {
+        request.destroy(new Error(`Timed out after ${timeoutMs}ms`));
+      });
+      request.on('error', (error) => resolve({ error: error.message }));
+      request.end();
+    });
+}
+
+/**
+ * Probe each URL in turn and record how it answered
+ */
+export async function verifyPreviewUrls(
+  urls: PreviewUrl[],
+  prober: PreviewProber,
+  onProgress?: (completed: number, total: number, check: PreviewCheck) => void
+): Promise<PreviewCheck[]> {
+  const checks: PreviewCheck[] = [];
+  for (const url of urls) {
+    const checkedAt = new Date().toISOString();
+    const result = await prober(url.url);
+    const check: PreviewCheck = {
+      ...url,
+      ...result,
+      state: previewState(result),
+      checkedAt,
+    };
+    checks.push(check);
+    onProgress?.(checks.length, urls.length, check);
+  }
+  return checks;
+}
+
+/**
+ * Apply workers.dev settings to one script
+ * Nothing is sent when the script is already in the requested state.
+ */
+export async function updateScriptPreviewSettings(
+  api: CloudflareAPI,
+  scriptName: string,
+  change: PreviewSettingsChange,
+  options: Pick<UpdatePreviewSettingsOptions, 'dryRun'> = {}
+): Promise<PreviewSettingsResult> {
+  const before = await api.getScriptSubdomain(scriptName);
+  const wanted: ScriptSubdomain = { ...before, ...change };
+  const changed =
+    wanted.enabled !== before.enabled ||
+    wanted.previews_enabled !== before.previews_enabled;
+
+  let after = before;
+  if (changed) {
+    after = options.dryRun
+      ? wanted
+      : await api.setScriptSubdomain(scriptName, wanted);
+  }
+  return { scriptName, before, after, changed };
+}
+
+/**
+ * Apply workers.dev settings to each script
+ * A failure on one script is recorded and does not stop the others.
+ */
+export async function updatePreviewSettings(
+  api: CloudflareAPI,
+  scriptNames: string[],
+  change: PreviewSettingsChange,
+  options: UpdatePreviewSettingsOptions = {}
+): Promise<PreviewSettingsResult[]> {
+  const results: PreviewSettingsResult[] = [];
+
+  for (let i = 0; i < scriptNames.length; i++) {
+    const scriptName = scriptNames[i];
+    options.onScript?.(scriptName, i, scriptNames.length);
+    try {
+      results.push(
+        await updateScriptPreviewSettings(api, scriptName, change, options)
+      );
+    } catch (error) {
+      results.push({
+        scriptName,
+        changed: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return results;
+}
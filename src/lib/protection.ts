@@ -0,0 +1,171 @@
+/**
+ * Version protection - works out which versions are serving traffic or covered by a rule and must never be deleted
+ */
+import { z } from 'zod';
+import type { Deployment, Version } from './cloudflare-api.js';
+import { matchesGlob } from '../utils/glob.js';
+
+/**
+ * Protected version IDs mapped to a human-readable reason
+ */
+export type ProtectedVersions = Map<string, string>;
+
+/**
+ * Rules that protect versions regardless of deployments
+ */
+export const ProtectionRulesSchema = z.object({
+  /** Tag globs, e.g. "release-*" */
+  tags: z.array(z.string().min(1)).default([]),
+  /** Message globs */
+  messages: z.array(z.string().min(1)).default([]),
+  /** Version IDs or ID prefixes that must never be deleted */
+  pinned: z.array(z.string().min(1)).default([]),
+});
+
+export type ProtectionRules = z.infer<typeof ProtectionRulesSchema>;
+
+export interface ProtectionOptions {
+  /**
+   * Number of most recent deployments whose versions are protected.
+   * Defaults to 1 (only the active deployment).
+   */
+  recentDeployments?: number;
+  /** Tag, message and pin rules */
+  rules?: ProtectionRules;
+}
+
+/**
+ * Combine rule sets, dropping duplicate patterns and IDs
+ */
+export function mergeProtectionRules(
+  ...sets: Array<Partial<ProtectionRules> | undefined>
+): ProtectionRules {
+  const union = (key: keyof ProtectionRules) => [
+    ...new Set(sets.flatMap((set) => set?.[key] ?? [])),
+  ];
+  return {
+    tags: union('tags'),
+    messages: union('messages'),
+    pinned: union('pinned'),
+  };
+}
+
+/**
+ * Whether a pin covers a version, by full ID or ID prefix like rollback
+ */
+function matchesPin(version: Version, pin: string): boolean {
+  return version.id.startsWith(pin);
+}
+
+/**
+ * Pins that match none of the given versions, e.g. a mistyped ID
+ */
+export function unmatchedPins(
+  versions: Version[],
+  rules: ProtectionRules
+): string[] {
+  return rules.pinned.filter(
+    (pin) => !versions.some((version) => matchesPin(version, pin))
+  );
+}
+
+/**
+ * Reason a version is protected by a rule, if any
+ */
+function ruleReason(
+  version: Version,
+  rules: ProtectionRules
+): string | undefined {
+  if (rules.pinned.some((pin) => matchesPin(version, pin))) {
+    return 'pinned';
+  }
+
+  const tag = version.annotations?.['workers/tag'];
+  const tagPattern = tag
+    ? rules.tags.find((pattern) => matchesGlob(tag, pattern))
+    : undefined;
+  if (tag && tagPattern) {
+    return `tag "${tag}" matches ${tagPattern}`;
+  }
+
+  const message = version.annotations?.['workers/message'];
+  const messagePattern = message
+    ? rules.messages.find((pattern) => matchesGlob(message, pattern))
+    : undefined;
+  if (messagePattern) {
+    return `message matches ${messagePattern}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Collect every version ID referenced by the active deployment
+ * (and by any additional recent deployments requested)
+ *
+ * Gradual rollouts reference more than one version, so every entry in
+ * `Deployment.versions` is protected, not just the first one.
+ * The first deployment in the list is the currently active one.
+ * If no deployment references any version, the latest version is
+ * protected as a safe fallback. Versions matching a tag, message or
+ * pin rule are protected on top of those.
+ */
+export function getProtectedVersions(
+  versions: Version[],
+  deployments: Deployment[],
+  options: ProtectionOptions = {}
+): ProtectedVersions {
+  const recentDeployments = Math.max(1, options.recentDeployments ?? 1);
+  const protectedVersions: ProtectedVersions = new Map();
+
+  deployments.slice(0, recentDeployments).forEach((deployment, index) => {
+    for (const { version_id, percentage } of deployment.versions ?? []) {
+      if (protectedVersions.has(version_id)) {
+        continue;
+      }
+      protectedVersions.set(
+        version_id,
+        index === 0
+          ? `ACTIVE ${percentage}%`
+          : `referenced by recent deployment ${deployment.id.slice(0, 8)}`
+      );
+    }
+  });
+
+  if (protectedVersions.size === 0 && versions.length > 0) {
+    protectedVersions.set(versions[0].id, 'ACTIVE');
+  }
+
+  if (options.rules) {
+    for (const version of versions) {
+      const reason = protectedVersions.has(version.id)
+        ? undefined
+        : ruleReason(version, options.rules);
+      if (reason) {
+        protectedVersions.set(version.id, reason);
+      }
+    }
+  }
+
+  return protectedVersions;
+}
+
+/**
+ * Split versions into deletable and protected lists
+ */
+export function partitionVersions(
+  versions: Version[],
+  protectedVersions: ProtectedVersions
+): { deletable: Version[]; protected: Version[] } {
+  const deletable: Version[] = [];
+  const kept: Version[] = [];
+  for (const version of versions) {
+    if (protectedVersions.has(version.id)) {
+      kept.push(version);
+    } else {
+      deletable.push(version);
+    }
+  }
+
+  return { deletable, protected: kept };
+}
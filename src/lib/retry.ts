@@ -0,0 +1,103 @@
+/**
+ * Retry policy shared by every Cloudflare API request
+ */
+
+export interface RetryOptions {
+  /** Number of retries after the first attempt (default: 5) */
+  maxRetries: number;
+  /** Base delay for exponential backoff in ms (default: 500) */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay in ms (default: 60,000) */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 60_000,
+};
+
+/**
+ * Merge partial options over the defaults, ignoring undefined values
+ */
+export function resolveRetryOptions(
+  options: Partial<RetryOptions> = {}
+): RetryOptions {
+  return {
+    maxRetries: options.maxRetries ?? DEFAULT_RETRY_OPTIONS.maxRetries,
+    baseDelayMs: options.baseDelayMs ?? DEFAULT_RETRY_OPTIONS.baseDelayMs,
+    maxDelayMs: options.maxDelayMs ?? DEFAULT_RETRY_OPTIONS.maxDelayMs,
+  };
+}
+
+/**
+ * Exponential backoff with full jitter for the given (zero-based) retry attempt
+ */
+export function computeBackoff(
+  attempt: number,
+  options: RetryOptions,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** attempt
+  );
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Whether a response status is worth retrying (rate limits and transient server errors)
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now = Date.now()
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Work out how long to wait before the next request from rate-limit headers
+ * Understands the `Ratelimit: "default";r=<remaining>;t=<reset seconds>`
+ * header Cloudflare sends, and the older X-RateLimit-Remaining/-Reset pair.
+ * Returns milliseconds to wait when the quota is exhausted, otherwise undefined.
+ */
+export function parseRateLimitWait(headers: Headers): number | undefined {
+  const ratelimit = headers.get('Ratelimit');
+  if (ratelimit) {
+    const remaining = /\br=(\d+)/.exec(ratelimit)?.[1];
+    const reset = /\bt=(\d+)/.exec(ratelimit)?.[1];
+    if (remaining !== undefined && Number(remaining) === 0 && reset) {
+      return Number(reset) * 1000;
+    }
+    return undefined;
+  }
+
+  const remaining = headers.get('X-RateLimit-Remaining');
+  const reset = headers.get('X-RateLimit-Reset');
+  if (remaining !== null && Number(remaining) === 0 && reset) {
+    const resetValue = Number(reset);
+    // Epoch seconds or seconds until reset
+    return resetValue > 1_000_000_000
+      ? Math.max(0, resetValue * 1000 - Date.now())
+      : resetValue * 1000;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,66 @@
+/**
+ * Safety guard - escalates confirmation for large or production deletions
+ */
+import { matchesGlob } from '../utils/glob.js';
+
+export interface SafetyRules {
+  /** Deletions above this count need typed confirmation */
+  confirmThreshold?: number;
+  /** Script name globs that always need typed confirmation */
+  protectedScripts: string[];
+}
+
+/**
+ * Why a deletion needs typed confirmation, and what must be typed
+ */
+export interface SafetyGuard {
+  reason: string;
+  expected: string;
+}
+
+/**
+ * Raised when --force is used without --i-understand on a guarded deletion
+ */
+export class SafetyGuardError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SafetyGuardError';
+  }
+}
+
+/**
+ * Work out whether deleting `count` items from these scripts needs typed confirmation
+ * A single script is confirmed by typing its name; several scripts by
+ * typing "delete <count>".
+ */
+export function safetyGuardFor(
+  scriptNames: string[],
+  count: number,
+  rules: SafetyRules
+): SafetyGuard | undefined {
+  const reasons: string[] = [];
+
+  const matched = scriptNames.filter((name) =>
+    rules.protectedScripts.some((pattern) => matchesGlob(name, pattern))
+  );
+  if (matched.length > 0) {
+    reasons.push(
+      `${matched.join(', ')} ${matched.length === 1 ? 'matches' : 'match'} a protected script pattern`
+    );
+  }
+
+  if (rules.confirmThreshold !== undefined && count > rules.confirmThreshold) {
+    reasons.push(
+      `${count} deletions exceed the confirmation threshold of ${rules.confirmThreshold}`
+    );
+  }
+
+  if (reasons.length === 0) {
+    return undefined;
+  }
+
+  return {
+    reason: reasons.join('; '),
+    expected: scriptNames.length === 1 ? scriptNames[0] : `delete ${count}`,
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Account-wide scan - walk every Worker script with the same version protection
+ */
+import type { CloudflareAPI, WorkerScript } from './cloudflare-api.js';
+import { loadVersionInventory, type VersionInventory } from './inventory.js';
+import type { ProtectionOptions } from './protection.js';
+import { matchesGlob } from '../utils/glob.js';
+
+export interface ScriptFilter {
+  /** Only include scripts matching at least one of these globs */
+  include?: string[];
+  /** Skip scripts matching any of these globs */
+  exclude?: string[];
+}
+
+export type ScriptScanResult =
+  | { scriptName: string; inventory: VersionInventory; error?: undefined }
+  | { scriptName: string; inventory?: undefined; error: string };
+
+/**
+ * Filter scripts by include/exclude globs on their names
+ */
+export function filterScripts(
+  scripts: WorkerScript[],
+  filter: ScriptFilter
+): WorkerScript[] {
+  return scripts.filter((script) => {
+    if (
+      filter.include?.length &&
+      !filter.include.some((pattern) => matchesGlob(script.id, pattern))
+    ) {
+      return false;
+    }
+    return !filter.exclude?.some((pattern) => matchesGlob(script.id, pattern));
+  });
+}
+
+/**
+ * Load the version inventory of every script
+ * A failure on one script is recorded and does not stop the scan.
+ */
+export async function scanScripts(
+  api: CloudflareAPI,
+  scriptNames: string[],
+  options: ProtectionOptions & {
+    onScript?: (scriptName: string, index: number, total: number) => void;
+  } = {}
+): Promise<ScriptScanResult[]> {
+  const results: ScriptScanResult[] = [];
+
+  for (let i = 0; i < scriptNames.length; i++) {
+    const scriptName = scriptNames[i];
+    options.onScript?.(scriptName, i, scriptNames.length);
+    try {
+      const inventory = await loadVersionInventory(api, scriptName, {
+        recentDeployments: options.recentDeployments,
+        rules: options.rules,
+      });
+      results.push({ scriptName, inventory });
+    } catch (error) {
+      results.push({
+        scriptName,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return results;
+}
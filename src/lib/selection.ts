@@ -0,0 +1,147 @@
+/**
+ * Retention-policy based selection of versions and deployments to delete
+ */
+import type { Deployment, Version } from './cloudflare-api.js';
+import { globToRegExp } from '../utils/glob.js';
+
+/**
+ * Selection criteria - every criterion that is set must match (AND semantics)
+ */
+export interface SelectionCriteria {
+  /** Keep the N most recent items, whatever the other criteria say */
+  keepLast?: number;
+  /** Only select items created more than this many milliseconds ago */
+  olderThan?: number;
+  /** Only select items uploaded by this author email */
+  author?: string;
+  /** Only select items with this source (e.g. wrangler, dash, api) */
+  source?: string;
+  /** Only select items whose tag matches this glob pattern */
+  tagPattern?: string;
+}
+
+interface SelectionFields {
+  id: string;
+  /** Larger is newer */
+  rank: number;
+  createdOn?: string;
+  author?: string;
+  source?: string;
+  tag?: string;
+}
+
+/**
+ * Check whether any selection criterion has been provided
+ */
+export function hasSelectionCriteria(criteria: SelectionCriteria): boolean {
+  return Object.values(criteria).some((value) => value !== undefined);
+}
+
+function equalsIgnoreCase(value: string | undefined, expected: string): boolean {
+  return value?.toLowerCase() === expected.toLowerCase();
+}
+
+function applyCriteria<T>(
+  items: T[],
+  candidates: T[],
+  criteria: SelectionCriteria,
+  fieldsOf: (item: T) => SelectionFields,
+  now: number
+): T[] {
+  const kept = new Set<string>();
+  if (criteria.keepLast !== undefined) {
+    [...items]
+      .map(fieldsOf)
+      .sort((a, b) => b.rank - a.rank)
+      .slice(0, criteria.keepLast)
+      .forEach((fields) => kept.add(fields.id));
+  }
+
+  const tagRegExp = criteria.tagPattern
+    ? globToRegExp(criteria.tagPattern)
+    : undefined;
+
+  return candidates.filter((item) => {
+    const fields = fieldsOf(item);
+
+    if (kept.has(fields.id)) {
+      return false;
+    }
+
+    if (criteria.olderThan !== undefined) {
+      const createdAt = Date.parse(fields.createdOn ?? '');
+      // Unknown creation dates are never considered old enough
+      if (isNaN(createdAt) || now - createdAt < criteria.olderThan) {
+        return false;
+      }
+    }
+
+    if (criteria.author && !equalsIgnoreCase(fields.author, criteria.author)) {
+      return false;
+    }
+
+    if (criteria.source && !equalsIgnoreCase(fields.source, criteria.source)) {
+      return false;
+    }
+
+    if (tagRegExp && !(fields.tag && tagRegExp.test(fields.tag))) {
+      return false;
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Select versions to delete from the deletable candidates
+ * @param versions All versions of the script (used for keepLast ranking)
+ * @param candidates Versions that are allowed to be deleted
+ */
+export function selectVersions(
+  versions: Version[],
+  candidates: Version[],
+  criteria: SelectionCriteria,
+  now = Date.now()
+): Version[] {
+  return applyCriteria(
+    versions,
+    candidates,
+    criteria,
+    (v) => ({
+      id: v.id,
+      rank: v.number,
+      createdOn: v.metadata.created_on,
+      author: v.metadata.author_email,
+      source: v.metadata.source,
+      tag: v.annotations?.['workers/tag'],
+    }),
+    now
+  );
+}
+
+/**
+ * Select deployments to delete from the deletable candidates
+ * Deployments carry no tag, so tagPattern never matches them.
+ * @param deployments All deployments of the script (used for keepLast ranking)
+ * @param candidates Deployments that are allowed to be deleted
+ */
+export function selectDeployments(
+  deployments: Deployment[],
+  candidates: Deployment[],
+  criteria: SelectionCriteria,
+  now = Date.now()
+): Deployment[] {
+  return applyCriteria(
+    deployments,
+    candidates,
+    criteria,
+    (d) => ({
+      id: d.id,
+      rank: Date.parse(d.created_on) || 0,
+      createdOn: d.created_on,
+      author: d.author_email,
+      source: d.source,
+    }),
+    now
+  );
+}
@@ -0,0 +1,14 @@
+/**
+ * Local state directory shared by the audit log and checkpoints
+ */
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+
+/**
+ * Directory for cwc's local state
+ * $XDG_STATE_HOME/cwc, defaulting to ~/.local/state/cwc
+ */
+export function getStateDir(): string {
+  const base = process.env.XDG_STATE_HOME || join(homedir(), '.local', 'state');
+  return join(base, 'cwc');
+}
@@ -0,0 +1,138 @@
+/**
+ * Traffic splits - how a gradual deployment shares traffic between versions
+ */
+import type {
+  Deployment,
+  DeploymentVersion,
+  Version,
+} from './cloudflare-api.js';
+import { findVersion } from './inventory.js';
+
+/**
+ * A requested share of traffic, before the version ID is resolved
+ */
+export interface TrafficEntry {
+  /** Full version ID or a unique prefix */
+  versionId: string;
+  percentage: number;
+}
+
+/**
+ * A deployment that routes traffic to a version
+ */
+export interface DeploymentReference {
+  deploymentId: string;
+  percentage: number;
+  /** True for the deployment currently serving traffic */
+  active: boolean;
+}
+
+/**
+ * Most versions Cloudflare lets one deployment split traffic across
+ */
+export const MAX_SPLIT_VERSIONS = 2;
+
+export class TrafficSplitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrafficSplitError';
+  }
+}
+
+/**
+ * Resolve version IDs and check that the split is usable
+ * @throws {TrafficSplitError} if there are more than two versions, a version is
+ *   missing or listed twice, or the percentages do not add up to 100
+ */
+export function resolveTrafficSplit(
+  entries: TrafficEntry[],
+  versions: Version[]
+): DeploymentVersion[] {
+  if (entries.length === 0) {
+    throw new TrafficSplitError('At least one version is required.');
+  }
+  if (entries.length > MAX_SPLIT_VERSIONS) {
+    throw new TrafficSplitError(
+      `A deployment can split traffic across at most ${MAX_SPLIT_VERSIONS} versions (got ${entries.length}).`
+    );
+  }
+
+  const missing: string[] = [];
+  const split: DeploymentVersion[] = [];
+  for (const { versionId, percentage } of entries) {
+    const version = findVersion(versions, versionId);
+    if (!version) {
+      missing.push(versionId);
+    } else if (split.some((s) => s.version_id === version.id)) {
+      throw new TrafficSplitError(
+        `Version ${version.id} is listed more than once.`
+      );
+    } else {
+      split.push({ version_id: version.id, percentage });
+    }
+  }
+
+  if (missing.length > 0) {
+    throw new TrafficSplitError(`Version(s) not found: ${missing.join(', ')}`);
+  }
+
+  const total = split.reduce((sum, s) => sum + s.percentage, 0);
+  // Allow for floating point error in fractional percentages
+  if (Math.abs(total - 100) > 1e-9) {
+    throw new TrafficSplitError(
+      `Percentages must add up to 100 (got ${total}).`
+    );
+  }
+
+  return split;
+}
+
+/**
+ * Describe a traffic split, e.g. "90% 0a1b2c3d... (#12), 10% 4e5f6a7b... (#11)"
+ */
+export function formatTrafficSplit(
+  split: DeploymentVersion[],
+  versions: Version[]
+): string {
+  const numbers = new Map(versions.map((v) => [v.id, v.number]));
+  return split
+    .map(({ version_id, percentage }) => {
+      const number = numbers.get(version_id);
+      const label = number !== undefined ? ` (#${number})` : '';
+      return `${percentage}% ${version_id.slice(0, 8)}...${label}`;
+    })
+    .join(', ');
+}
+
+/**
+ * Map each version ID to the deployments that reference it, newest first
+ * The first deployment in the list is the active one.
+ */
+export function deploymentReferences(
+  deployments: Deployment[]
+): Map<string, DeploymentReference[]> {
+  const references = new Map<string, DeploymentReference[]>();
+  deployments.forEach((deployment, index) => {
+    for (const { version_id, percentage } of deployment.versions ?? []) {
+      references.set(version_id, [
+        ...(references.get(version_id) ?? []),
+        { deploymentId: deployment.id, percentage, active: index === 0 },
+      ]);
+    }
+  });
+  return references;
+}
+
+/**
+ * Describe the deployments referencing a version, e.g. "0a1b2c3d... 90% (active), 4e5f6a7b... 100%"
+ */
+export function formatDeploymentReferences(
+  references: DeploymentReference[]
+): string {
+  return references
+    .map(
+      ({ deploymentId, percentage, active }) =>
+        `${deploymentId.slice(0, 8)}... ${percentage}%${active ? ' (active)' : ''}`
+    )
+    .join(', ');
+}
@@ -0,0 +1,796 @@
+/**
+ * In-process fake of the Cloudflare Workers scripts, versions and deployments API
+ * and the Pages projects and deployments API
+ *
+ * Use `fake.fetch` as the `fetch` of a CloudflareAPI client, or `fake.listen()`
+ * to serve it over HTTP and point the CLI at it with CLOUDFLARE_API_BASE_URL.
+ * Requests whose host is a workers.dev preview hostname are answered like the
+ * preview itself: 200 while the version exists and the script has previews
+ * enabled, 404 otherwise.
+ */
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type {
+  Deployment,
+  DeploymentVersion,
+  PagesDeployment,
+  PagesEnvironment,
+  PagesProject,
+  ScriptSubdomain,
+  Version,
+  WorkerScript,
+} from '../lib/cloudflare-api.js';
+
+export interface FakeCloudflareOptions {
+  /** Account the fake serves (default: fake-account) */
+  accountId?: string;
+  /** Token every request must carry (default: fake-token) */
+  apiToken?: string;
+  /** Largest page the list endpoints return, whatever per_page asks for (default: 100) */
+  maxPageSize?: number;
+  /** The account's workers.dev subdomain (default: fake) */
+  workersSubdomain?: string;
+}
+
+export interface FakeVersionInit {
+  id?: string;
+  createdOn?: string;
+  author?: string;
+  source?: string;
+  tag?: string;
+  message?: string;
+  /** Preview alias */
+  alias?: string;
+}
+
+export interface FakeDeploymentInit {
+  createdOn?: string;
+  message?: string;
+}
+
+export interface FakePagesDeploymentInit {
+  branch?: string;
+  /** Defaults to production for the production branch, preview otherwise */
+  environment?: PagesEnvironment;
+  createdOn?: string;
+  commitHash?: string;
+}
+
+/**
+ * A response to inject instead of the real one
+ */
+export interface FakeFault {
+  /** HTTP method to match (default: any) */
+  method?: string;
+  /** Path to match, relative to the account (e.g. /workers/scripts/my-worker/versions) */
+  path: string | RegExp;
+  status: 403 | 404 | 429 | 500 | 503;
+  /** Number of matching requests to fail (default: 1; Infinity for all) */
+  times?: number;
+  /** Retry-After header in seconds, for 429 responses */
+  retryAfter?: number;
+}
+
+export interface FakeRequest {
+  method: string;
+  /** Path relative to the account, without the query string */
+  path: string;
+  query: Record<string, string>;
+  body?: unknown;
+}
+
+export interface FakeServer {
+  /** API root to use as baseUrl or CLOUDFLARE_API_BASE_URL */
+  url: string;
+  close(): Promise<void>;
+}
+
+interface FakeScript {
+  createdOn: string;
+  versions: Version[];
+  deployments: Deployment[];
+  subdomain: ScriptSubdomain;
+}
+
+interface FakePagesProject {
+  productionBranch: string;
+  deployments: PagesDeployment[];
+}
+
+interface FakeResponse {
+  status: number;
+  result?: unknown;
+  resultInfo?: Record<string, number>;
+  errors?: Array<{ code: number; message: string }>;
+  headers?: Record<string, string>;
+}
+
+const BASE_TIME = Date.UTC(2024, 0, 1);
+const HOUR = 60 * 60 * 1000;
+
+function fakeId(counter: number): string {
+  return `${counter.toString(16).padStart(8, '0')}-0000-4000-8000-000000000000`;
+}
+
+function failure(
+  status: number,
+  code: number,
+  message: string,
+  headers?: Record<string, string>
+): FakeResponse {
+  return { status, errors: [{ code, message }], headers };
+}
+
+export class FakeCloudflare {
+  readonly accountId: string;
+  readonly apiToken: string;
+  readonly workersSubdomain: string;
+  /** Every request received, oldest first */
+  readonly requests: FakeRequest[] = [];
+
+  private maxPageSize: number;
+  private scripts = new Map<string, FakeScript>();
+  private pagesProjects = new Map<string, FakePagesProject>();
+  private faults: Array<FakeFault & { remaining: number }> = [];
+  private counter = 0;
+
+  constructor(options: FakeCloudflareOptions = {}) {
+    this.accountId = options.accountId ?? 'fake-account';
+    this.apiToken = options.apiToken ?? 'fake-token';
+    this.maxPageSize = options.maxPageSize ?? 100;
+    this.workersSubdomain = options.workersSubdomain ?? 'fake';
+  }
+
+  /**
+   * Add an empty Worker script
+   */
+  addScript(name: string): void {
+    if (!this.scripts.has(name)) {
+      this.scripts.set(name, {
+        createdOn: new Date(BASE_TIME).toISOString(),
+        versions: [],
+        deployments: [],
+        subdomain: { enabled: true, previews_enabled: true },
+      });
+    }
+  }
+
+  /**
+   * Upload a version, creating the script if needed
+   * Versions are numbered in upload order and listed newest first.
+   */
+  addVersion(scriptName: string, init: FakeVersionInit = {}): Version {
+    this.addScript(scriptName);
+    const script = this.script(scriptName);
+    const counter = ++this.counter;
+
+    const annotations: Version['annotations'] = {};
+    if (init.tag) {
+      annotations['workers/tag'] = init.tag;
+    }
+    if (init.message) {
+      annotations['workers/message'] = init.message;
+    }
+    if (init.alias) {
+      annotations['workers/alias'] = init.alias;
+    }
+
+    const version: Version = {
+      id: init.id ?? fakeId(counter),
+      number: script.versions.length + 1,
+      metadata: {
+        author_email: init.author ?? 'dev@example.com',
+        source: init.source ?? 'wrangler',
+        created_on:
+          init.createdOn ?? new Date(BASE_TIME + counter * HOUR).toISOString(),
+      },
+      annotations,
+    };
+    script.versions.unshift(version);
+    return version;
+  }
+
+  /**
+   * Create a deployment, which becomes the active one
+   * Pass a version ID to send it 100% of traffic, or a full split.
+   */
+  deploy(
+    scriptName: string,
+    split: string | DeploymentVersion[],
+    init: FakeDeploymentInit = {}
+  ): Deployment {
+    const script = this.script(scriptName);
+    const counter = ++this.counter;
+    const deployment: Deployment = {
+      id: fakeId(counter),
+      created_on:
+        init.createdOn ?? new Date(BASE_TIME + counter * HOUR).toISOString(),
+      author_email: 'dev@example.com',
+      source: 'wrangler',
+      strategy: 'percentage',
+      versions:
+        typeof split === 'string'
+          ? [{ version_id: split, percentage: 100 }]
+          : split,
+      ...(init.message
+        ? { annotations: { 'workers/message': init.message } }
+        : {}),
+    };
+    script.deployments.unshift(deployment);
+    return deployment;
+  }
+
+  /**
+   * Current versions of a script, newest first
+   */
+  versions(scriptName: string): Version[] {
+    return [...this.script(scriptName).versions];
+  }
+
+  /**
+   * Current deployments of a script, active first
+   */
+  deployments(scriptName: string): Deployment[] {
+    return [...this.script(scriptName).deployments];
+  }
+
+  /**
+   * Current workers.dev settings of a script
+   */
+  scriptSubdomain(scriptName: string): ScriptSubdomain {
+    return { ...this.script(scriptName).subdomain };
+  }
+
+  /**
+   * Add an empty Pages project
+   */
+  addPagesProject(
+    name: string,
+    options: { productionBranch?: string } = {}
+  ): void {
+    if (!this.pagesProjects.has(name)) {
+      this.pagesProjects.set(name, {
+        productionBranch: options.productionBranch ?? 'main',
+        deployments: [],
+      });
+    }
+  }
+
+  /**
+   * Deploy a branch of a Pages project, creating the project if needed
+   * The newest deployment of each branch gets the branch alias, and the
+   * newest production deployment becomes the project's canonical deployment.
+   */
+  addPagesDeployment(
+    projectName: string,
+    init: FakePagesDeploymentInit = {}
+  ): PagesDeployment {
+    this.addPagesProject(projectName);
+    const project = this.pagesProject(projectName);
+    const counter = ++this.counter;
+    const id = fakeId(counter);
+    const branch = init.branch ?? project.productionBranch;
+
+    const deployment: PagesDeployment = {
+      id,
+      short_id: id.slice(0, 8),
+      project_name: projectName,
+      environment:
+        init.environment ??
+        (branch === project.productionBranch ? 'production' : 'preview'),
+      url: `https://${id.slice(0, 8)}.${projectName}.pages.dev`,
+      created_on:
+        init.createdOn ?? new Date(BASE_TIME + counter * HOUR).toISOString(),
+      aliases: null,
+      deployment_trigger: {
+        type: 'github:push',
+        metadata: {
+          branch,
+          commit_hash:
+            init.commitHash ??
+            counter.toString(16).padStart(7, '0').padEnd(40, '0'),
+        },
+      },
+      latest_stage: { name: 'deploy', status: 'success' },
+    };
+    project.deployments.unshift(deployment);
+    this.updateAliases(projectName, project);
+    return deployment;
+  }
+
+  /**
+   * Current deployments of a Pages project, newest first
+   */
+  pagesDeployments(projectName: string): PagesDeployment[] {
+    return [...this.pagesProject(projectName).deployments];
+  }
+
+  /**
+   * Fail matching requests with the given status
+   */
+  fail(fault: FakeFault): void {
+    this.faults.push({ ...fault, remaining: fault.times ?? 1 });
+  }
+
+  /**
+   * fetch implementation backed by the fake
+   */
+  readonly fetch: typeof fetch = async (input, init) =>
+    this.handle(new Request(input, init));
+
+  /**
+   * Answer a request the way the Cloudflare API would
+   */
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (url.hostname.endsWith(`.${this.workersSubdomain}.workers.dev`)) {
+      return this.preview(url.hostname);
+    }
+
+    const prefix = `/accounts/${this.accountId}`;
+    const index = url.pathname.indexOf('/accounts/');
+    const accountPath = index >= 0 ? url.pathname.slice(index) : url.pathname;
+    const path = accountPath.startsWith(`${prefix}/`)
+      ? accountPath.slice(prefix.length)
+      : accountPath;
+    const text = request.body ? await request.text() : '';
+
+    const received: FakeRequest = {
+      method: request.method,
+      path,
+      query: Object.fromEntries(url.searchParams),
+      body: text ? JSON.parse(text) : undefined,
+    };
+    this.requests.push(received);
+
+    return this.respond(this.route(request, received, accountPath !== path));
+  }
+
+  /**
+   * Serve the fake over HTTP on a free local port
+   */
+  listen(): Promise<FakeServer> {
+    const server = createServer(async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk as Buffer);
+      }
+      const headers = new Headers();
+      for (const [name, value] of Object.entries(req.headers)) {
+        if (typeof value === 'string') {
+          headers.set(name, value);
+        }
+      }
+      const response = await this.handle(
+        new Request(`http://${req.headers.host}${req.url}`, {
+          method: req.method,
+          headers,
+          body: chunks.length > 0 ? Buffer.concat(chunks) : undefined,
+        })
+      );
+      res.writeHead(response.status, Object.fromEntries(response.headers));
+      res.end(Buffer.from(await response.arrayBuffer()));
+    });
+
+    return new Promise((resolve) => {
+      server.listen(0, '127.0.0.1', () => {
+        const { port } = server.address() as AddressInfo;
+        resolve({
+          url: `http://127.0.0.1:${port}/client/v4`,
+          close: () =>
+            new Promise((done) => {
+              server.closeAllConnections();
+              server.close(() => done());
+            }),
+        });
+      });
+    });
+  }
+
+  private script(name: string): FakeScript {
+    const script = this.scripts.get(name);
+    if (!script) {
+      throw new Error(`Fake script "${name}" does not exist`);
+    }
+    return script;
+  }
+
+  private pagesProject(name: string): FakePagesProject {
+    const project = this.pagesProjects.get(name);
+    if (!project) {
+      throw new Error(`Fake Pages project "${name}" does not exist`);
+    }
+    return project;
+  }
+
+  private canonicalDeployment(
+    project: FakePagesProject
+  ): PagesDeployment | undefined {
+    return project.deployments.find((d) => d.environment === 'production');
+  }
+
+  /**
+   * Point each branch alias at the newest deployment of the branch
+   */
+  private updateAliases(name: string, project: FakePagesProject): void {
+    const seen = new Set<string>();
+    for (const deployment of project.deployments) {
+      const branch = deployment.deployment_trigger?.metadata?.branch ?? '';
+      deployment.aliases = seen.has(branch)
+        ? null
+        : [`https://${branch.replace(/[^a-z0-9-]/gi, '-')}.${name}.pages.dev`];
+      seen.add(branch);
+    }
+  }
+
+  private takeFault(request: FakeRequest): FakeFault | undefined {
+    const fault = this.faults.find(
+      (f) =>
+        f.remaining > 0 &&
+        (!f.method || f.method.toUpperCase() === request.method) &&
+        (typeof f.path === 'string'
+          ? f.path === request.path
+          : f.path.test(request.path))
+    );
+    if (fault) {
+      fault.remaining--;
+    }
+    return fault;
+  }
+
+  private route(
+    request: Request,
+    received: FakeRequest,
+    ownAccount: boolean
+  ): FakeResponse {
+    if (request.headers.get('Authorization') !== `Bearer ${this.apiToken}`) {
+      return failure(403, 10000, 'Authentication error');
+    }
+    if (!ownAccount) {
+      return failure(403, 10000, 'Authentication error');
+    }
+
+    const fault = this.takeFault(received);
+    if (fault) {
+      return failure(
+        fault.status,
+        fault.status === 429 ? 971 : 10000 + fault.status,
+        `Injected ${fault.status} response`,
+        fault.retryAfter !== undefined
+          ? { 'Retry-After': String(fault.retryAfter) }
+          : undefined
+      );
+    }
+
+    const { method, path } = received;
+    if (method === 'GET' && path === '/workers/subdomain') {
+      return { status: 200, result: { subdomain: this.workersSubdomain } };
+    }
+
+    if (method === 'GET' && path === '/workers/scripts') {
+      const scripts: WorkerScript[] = [...this.scripts].map(
+        ([id, script]) => ({
+          id,
+          created_on: script.createdOn,
+          modified_on: script.versions[0]?.metadata.created_on,
+        })
+      );
+      return this.page(scripts, received, (items) => items);
+    }
+
+    const pages = /^\/pages\/projects\/([^/]+)(\/deployments)?(?:\/([^/]+))?$/.exec(
+      path
+    );
+    if (pages) {
+      const [, projectName, deployments, id] = pages;
+      return this.pagesRoute(
+        decodeURIComponent(projectName),
+        method,
+        deployments !== undefined,
+        id,
+        received
+      );
+    }
+
+    const subdomain = /^\/workers\/scripts\/([^/]+)\/subdomain$/.exec(path);
+    if (subdomain) {
+      const script = this.scripts.get(decodeURIComponent(subdomain[1]));
+      if (!script) {
+        return failure(404, 10007, 'This Worker does not exist on your account.');
+      }
+      return this.subdomainRoute(script, method, received);
+    }
+
+    const match = /^\/workers\/scripts\/([^/]+)\/(versions|deployments)(?:\/([^/]+))?(\/content)?$/.exec(
+      path
+    );
+    if (!match) {
+      return failure(404, 7003, `No route for ${method} ${path}`);
+    }
+
+    const [, scriptName, collection, id, content] = match;
+    const script = this.scripts.get(decodeURIComponent(scriptName));
+    if (!script) {
+      return failure(404, 10007, 'This Worker does not exist on your account.');
+    }
+
+    if (collection === 'versions') {
+      return this.versionRoute(script, method, id, content !== undefined, received);
+    }
+    return this.deploymentRoute(script, method, id, received);
+  }
+
+  private subdomainRoute(
+    script: FakeScript,
+    method: string,
+    received: FakeRequest
+  ): FakeResponse {
+    if (method === 'GET') {
+      return { status: 200, result: { ...script.subdomain } };
+    }
+    if (method !== 'POST') {
+      return failure(405, 10405, 'Method not allowed');
+    }
+
+    // Like the real endpoint, previews follow the route unless set explicitly
+    const body = received.body as Partial<ScriptSubdomain> | undefined;
+    if (typeof body?.enabled !== 'boolean') {
+      return failure(400, 10021, 'enabled must be a boolean');
+    }
+    script.subdomain = {
+      enabled: body.enabled,
+      previews_enabled: body.previews_enabled ?? body.enabled,
+    };
+    return { status: 200, result: { ...script.subdomain } };
+  }
+
+  private versionRoute(
+    script: FakeScript,
+    method: string,
+    id: string | undefined,
+    content: boolean,
+    received: FakeRequest
+  ): FakeResponse {
+    if (id === undefined) {
+      return method === 'GET'
+        ? this.page(script.versions, received, (items) => ({ items }))
+        : failure(405, 10405, 'Method not allowed');
+    }
+
+    const version = script.versions.find((v) => v.id === id);
+    if (!version) {
+      return failure(404, 10008, 'Version not found');
+    }
+
+    if (method === 'GET') {
+      return content
+        ? {
+            status: 200,
+            result: `// ${version.id}\nexport default {};\n`,
+            headers: { 'Content-Type': 'application/javascript+module' },
+          }
+        : {
+            status: 200,
+            result: {
+              ...version,
+              resources: { bindings: [], script: { etag: version.id } },
+            },
+          };
+    }
+
+    if (method === 'DELETE') {
+      const active = script.deployments[0];
+      if (active?.versions.some((v) => v.version_id === id)) {
+        return failure(
+          400,
+          10210,
+          'Cannot delete a version that is part of the active deployment'
+        );
+      }
+      script.versions = script.versions.filter((v) => v.id !== id);
+      return { status: 200, result: null };
+    }
+
+    return failure(405, 10405, 'Method not allowed');
+  }
+
+  private deploymentRoute(
+    script: FakeScript,
+    method: string,
+    id: string | undefined,
+    received: FakeRequest
+  ): FakeResponse {
+    if (id === undefined && method === 'GET') {
+      // Like the real endpoint, deployments are returned in one unpaginated list
+      return { status: 200, result: { deployments: script.deployments } };
+    }
+
+    if (id === undefined && method === 'POST') {
+      const body = received.body as {
+        versions?: DeploymentVersion[];
+        annotations?: Deployment['annotations'];
+      };
+      const versions = body?.versions ?? [];
+      const total = versions.reduce((sum, v) => sum + v.percentage, 0);
+      if (versions.length === 0 || total !== 100) {
+        return failure(400, 10201, 'Version percentages must add up to 100');
+      }
+      const unknown = versions.find(
+        (v) => !script.versions.some((known) => known.id === v.version_id)
+      );
+      if (unknown) {
+        return failure(400, 10202, `Unknown version ${unknown.version_id}`);
+      }
+
+      const deployment: Deployment = {
+        id: fakeId(++this.counter),
+        created_on: new Date(BASE_TIME + this.counter * HOUR).toISOString(),
+        author_email: 'api@example.com',
+        source: 'api',
+        strategy: 'percentage',
+        versions,
+        ...(body.annotations ? { annotations: body.annotations } : {}),
+      };
+      script.deployments.unshift(deployment);
+      return { status: 200, result: deployment };
+    }
+
+    if (id !== undefined && method === 'DELETE') {
+      const index = script.deployments.findIndex((d) => d.id === id);
+      if (index < 0) {
+        return failure(404, 10009, 'Deployment not found');
+      }
+      if (index === 0) {
+        return failure(400, 10211, 'Cannot delete the active deployment');
+      }
+      script.deployments.splice(index, 1);
+      return { status: 200, result: null };
+    }
+
+    return failure(405, 10405, 'Method not allowed');
+  }
+
+  /**
+   * Answer a request to <script>.<subdomain>.workers.dev or <prefix>-<script>.<subdomain>.workers.dev
+   * The prefix is a version ID prefix or a preview alias.
+   */
+  private preview(hostname: string): Response {
+    const label = hostname.slice(
+      0,
+      -`.${this.workersSubdomain}.workers.dev`.length
+    );
+    for (const [name, script] of this.scripts) {
+      if (label === name && script.subdomain.enabled) {
+        return new Response(`Production of ${name}`, { status: 200 });
+      }
+      if (!label.endsWith(`-${name}`) || !script.subdomain.previews_enabled) {
+        continue;
+      }
+      const prefix = label.slice(0, -name.length - 1);
+      const live = script.versions.some(
+        (v) =>
+          (prefix.length === 8 && v.id.startsWith(prefix)) ||
+          v.annotations?.['workers/alias'] === prefix
+      );
+      if (live) {
+        return new Response(`Preview of ${name}`, { status: 200 });
+      }
+    }
+    return new Response('There is nothing here yet', { status: 404 });
+  }
+
+  private pagesRoute(
+    projectName: string,
+    method: string,
+    deployments: boolean,
+    id: string | undefined,
+    received: FakeRequest
+  ): FakeResponse {
+    const project = this.pagesProjects.get(projectName);
+    if (!project) {
+      return failure(404, 8000007, 'Project not found');
+    }
+
+    if (!deployments) {
+      if (method !== 'GET') {
+        return failure(405, 10405, 'Method not allowed');
+      }
+      const result: PagesProject = {
+        name: projectName,
+        subdomain: `${projectName}.pages.dev`,
+        production_branch: project.productionBranch,
+        canonical_deployment: this.canonicalDeployment(project) ?? null,
+        latest_deployment: project.deployments[0] ?? null,
+      };
+      return { status: 200, result };
+    }
+
+    if (id === undefined) {
+      if (method !== 'GET') {
+        return failure(405, 10405, 'Method not allowed');
+      }
+      const env = received.query.env;
+      return this.page(
+        env
+          ? project.deployments.filter((d) => d.environment === env)
+          : project.deployments,
+        received,
+        (items) => items
+      );
+    }
+
+    const deployment = project.deployments.find((d) => d.id === id);
+    if (!deployment) {
+      return failure(404, 8000009, 'Deployment not found');
+    }
+    if (method !== 'DELETE') {
+      return method === 'GET'
+        ? { status: 200, result: deployment }
+        : failure(405, 10405, 'Method not allowed');
+    }
+    if (deployment.id === this.canonicalDeployment(project)?.id) {
+      return failure(
+        400,
+        8000034,
+        'Cannot delete the active production deployment'
+      );
+    }
+    if (deployment.aliases?.length && received.query.force !== 'true') {
+      return failure(
+        400,
+        8000035,
+        'Cannot delete an aliased deployment without force=true'
+      );
+    }
+    project.deployments = project.deployments.filter((d) => d.id !== id);
+    this.updateAliases(projectName, project);
+    return { status: 200, result: null };
+  }
+
+  /**
+   * Slice a list endpoint's items by page/per_page
+   */
+  private page<T>(
+    items: T[],
+    received: FakeRequest,
+    wrap: (items: T[]) => unknown
+  ): FakeResponse {
+    const perPage = Math.min(
+      Number(received.query.per_page) || 20,
+      this.maxPageSize
+    );
+    const page = Math.max(1, Number(received.query.page) || 1);
+    const slice = items.slice((page - 1) * perPage, page * perPage);
+    return {
+      status: 200,
+      result: wrap(slice),
+      resultInfo: {
+        page,
+        per_page: perPage,
+        count: slice.length,
+        total_count: items.length,
+        total_pages: Math.max(1, Math.ceil(items.length / perPage)),
+      },
+    };
+  }
+
+  private respond(response: FakeResponse): Response {
+    const headers = new Headers(response.headers);
+    if (typeof response.result === 'string' && response.status === 200) {
+      return new Response(response.result, { status: 200, headers });
+    }
+
+    headers.set('Content-Type', 'application/json');
+    const success = response.status >= 200 && response.status < 300;
+    return new Response(
+      JSON.stringify({
+        success,
+        errors: response.errors ?? [],
+        messages: [],
+        result: success ? response.result : null,
+        ...(response.resultInfo ? { result_info: response.resultInfo } : {}),
+      }),
+      { status: response.status, headers }
+    );
+  }
+}
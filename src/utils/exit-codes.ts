@@ -0,0 +1,56 @@
+/**
+ * Process exit codes - stable values scripts and CI can branch on
+ */
+import {
+  CloudflareAPIError,
+  RateLimitError,
+} from '../lib/cloudflare-api.js';
+import { SafetyGuardError } from '../lib/safety.js';
+import { TrafficSplitError } from '../lib/traffic.js';
+import { NonInteractiveError } from './interactive.js';
+
+export const ExitCode = {
+  /** Everything selected was deleted (or listed) */
+  Success: 0,
+  /** Unexpected or unclassified error */
+  Error: 1,
+  /** Invalid command-line usage */
+  Usage: 2,
+  /** Nothing matched, so nothing was deleted */
+  NothingToDo: 3,
+  /** Some deletions failed */
+  PartialFailure: 4,
+  /** The API token was rejected or lacks permissions */
+  AuthFailure: 5,
+  /** The script or resource does not exist */
+  NotFound: 6,
+  /** Rate limited after exhausting retries */
+  RateLimited: 7,
+} as const;
+
+export type ExitCode = (typeof ExitCode)[keyof typeof ExitCode];
+
+/**
+ * Map an error thrown by a command to its exit code
+ */
+export function exitCodeForError(error: unknown): ExitCode {
+  if (
+    error instanceof NonInteractiveError ||
+    error instanceof SafetyGuardError ||
+    error instanceof TrafficSplitError
+  ) {
+    return ExitCode.Usage;
+  }
+  if (error instanceof RateLimitError) {
+    return ExitCode.RateLimited;
+  }
+  if (error instanceof CloudflareAPIError) {
+    if (error.statusCode === 401 || error.statusCode === 403) {
+      return ExitCode.AuthFailure;
+    }
+    if (error.statusCode === 404) {
+      return ExitCode.NotFound;
+    }
+  }
+  return ExitCode.Error;
+}
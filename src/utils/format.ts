@@ -0,0 +1,148 @@
+/**
+ * Render lists as tables, CSV, Markdown, JSON or NDJSON
+ */
+
+export type ListFormat = 'table' | 'csv' | 'markdown' | 'json' | 'ndjson';
+
+export const LIST_FORMATS: ListFormat[] = [
+  'table',
+  'csv',
+  'markdown',
+  'json',
+  'ndjson',
+];
+
+export type Cell = string | number | boolean | undefined;
+
+/**
+ * A named column and how to read it from an item
+ */
+export interface Column<T> {
+  name: string;
+  value: (item: T) => Cell;
+}
+
+export interface SortOrder {
+  column: string;
+  descending: boolean;
+}
+
+function cellText(value: Cell): string {
+  return value === undefined ? '' : String(value);
+}
+
+function csvField(value: Cell): string {
+  const text = cellText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function markdownField(value: Cell): string {
+  return cellText(value).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function compareCells(a: Cell, b: Cell): number {
+  if (a === undefined || b === undefined) {
+    // Empty values sort last in either direction
+    return a === b ? 0 : a === undefined ? 1 : -1;
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b));
+}
+
+/**
+ * Check requested column names against the available columns
+ * @throws {Error} naming the unknown columns and listing the valid ones
+ */
+export function resolveColumns<T>(
+  available: Column<T>[],
+  names: string[]
+): Column<T>[] {
+  const byName = new Map(available.map((c) => [c.name, c]));
+  const unknown = names.filter((name) => !byName.has(name));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown column(s): ${unknown.join(', ')}. Available: ${available
+        .map((c) => c.name)
+        .join(', ')}.`
+    );
+  }
+  return names.map((name) => byName.get(name) as Column<T>);
+}
+
+/**
+ * Sort items by a column, keeping the original order for ties
+ * @throws {Error} if the column does not exist
+ */
+export function sortItems<T>(
+  items: T[],
+  available: Column<T>[],
+  order: SortOrder
+): T[] {
+  const [column] = resolveColumns(available, [order.column]);
+  const direction = order.descending ? -1 : 1;
+  return items
+    .map((item, index) => ({ item, index, value: column.value(item) }))
+    .sort((a, b) => {
+      const compared =
+        a.value === undefined || b.value === undefined
+          ? compareCells(a.value, b.value)
+          : direction * compareCells(a.value, b.value);
+      return compared || a.index - b.index;
+    })
+    .map(({ item }) => item);
+}
+
+/**
+ * Render items in the given format using the chosen columns
+ */
+export function renderList<T>(
+  format: ListFormat,
+  columns: Column<T>[],
+  items: T[]
+): string {
+  const headers = columns.map((c) => c.name);
+  const rows = items.map((item) => columns.map((c) => c.value(item)));
+
+  switch (format) {
+    case 'json':
+    case 'ndjson': {
+      const records = rows.map((row) =>
+        Object.fromEntries(headers.map((h, i) => [h, row[i] ?? null]))
+      );
+      return format === 'json'
+        ? JSON.stringify(records, null, 2)
+        : records.map((record) => JSON.stringify(record)).join('\n');
+    }
+
+    case 'csv':
+      return [headers, ...rows]
+        .map((row) => row.map(csvField).join(','))
+        .join('\n');
+
+    case 'markdown':
+      return [
+        `| ${headers.join(' | ')} |`,
+        `| ${headers.map(() => '---').join(' | ')} |`,
+        ...rows.map((row) => `| ${row.map(markdownField).join(' | ')} |`),
+      ].join('\n');
+
+    case 'table': {
+      const text = rows.map((row) => row.map(cellText));
+      const widths = headers.map((header, column) =>
+        Math.max(header.length, ...text.map((row) => row[column].length))
+      );
+      const line = (cells: string[]) =>
+        cells
+          .map((cell, column) => cell.padEnd(widths[column]))
+          .join('  ')
+          .trimEnd();
+      return [
+        line(headers),
+        widths.map((w) => '-'.repeat(w)).join('  '),
+        ...text.map(line),
+      ].join('\n');
+    }
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Minimal glob matching for names, tags and similar identifiers
+ * Supports `*` (any run of characters) and `?` (any single character)
+ */
+
+/**
+ * Convert a glob pattern into an anchored regular expression
+ * Wildcards also match line breaks, so multi-line messages can be matched.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') {
+        return '.*';
+      }
+      if (char === '?') {
+        return '.';
+      }
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 's');
+}
+
+/**
+ * Check whether a value matches a glob pattern
+ */
+export function matchesGlob(value: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(value);
+}
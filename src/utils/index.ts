@@ -4,3 +4,6 @@ export {
   confirmDeletion,
   confirmDeleteAll,
 } from './prompts.js';
+export { ExitCode, exitCodeForError } from './exit-codes.js';
+export { renderList, sortItems, type ListFormat } from './format.js';
+export { isInteractive, NonInteractiveError } from './interactive.js';
@@ -0,0 +1,41 @@
+/**
+ * Non-interactive mode - never prompt in CI or piped runs
+ */
+import { getGlobalOptions } from '../config/global-options.js';
+
+/**
+ * Raised instead of prompting when no one can answer
+ */
+export class NonInteractiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NonInteractiveError';
+  }
+}
+
+function isCI(): boolean {
+  const value = process.env.CI;
+  return value !== undefined && value !== '' && value !== '0' && value !== 'false';
+}
+
+/**
+ * Whether prompts and spinners may be used
+ * False with --no-interactive, when stdin is not a TTY, or when CI is set.
+ */
+export function isInteractive(): boolean {
+  if (getGlobalOptions().interactive === false) {
+    return false;
+  }
+  return Boolean(process.stdin.isTTY) && !isCI();
+}
+
+/**
+ * Throw a NonInteractiveError naming the flags that avoid the prompt
+ */
+export function assertInteractive(prompt: string, flags: string): void {
+  if (!isInteractive()) {
+    throw new NonInteractiveError(
+      `Cannot ${prompt} in non-interactive mode. ${flags}`
+    );
+  }
+}
@@ -3,17 +3,28 @@
  */
 import chalk from 'chalk';
 
+// Human-readable output moves to stderr when stdout carries JSON
+let useStderr = false;
+
+function print(...args: unknown[]): void {
+  if (useStderr) {
+    console.error(...args);
+  } else {
+    console.log(...args);
+  }
+}
+
 export const logger = {
   info: (message: string) => {
-    console.log(chalk.blue('ℹ'), message);
+    print(chalk.blue('ℹ'), message);
   },
 
   success: (message: string) => {
-    console.log(chalk.green('✓'), message);
+    print(chalk.green('✓'), message);
   },
 
   warn: (message: string) => {
-    console.log(chalk.yellow('⚠'), message);
+    print(chalk.yellow('⚠'), message);
   },
 
   error: (message: string) => {
@@ -22,7 +33,7 @@ export const logger = {
 
   debug: (message: string) => {
     if (process.env.DEBUG) {
-      console.log(chalk.gray('⚙'), message);
+      print(chalk.gray('⚙'), message);
     }
   },
 
@@ -30,7 +41,7 @@ export const logger = {
    * Log a dry run message
    */
   dryRun: (message: string) => {
-    console.log(chalk.cyan('[DRY RUN]'), message);
+    print(chalk.cyan('[DRY RUN]'), message);
   },
 
   /**
@@ -56,22 +67,31 @@ export const logger = {
       id: string;
       created_on: string;
       author_email: string;
+      source?: string;
+      strategy?: string;
       isActive?: boolean;
+      /** Traffic split, printed on a second line */
+      traffic?: string;
     }>
   ) => {
-    console.log('');
+    print('');
     deployments.forEach((d, index) => {
       const date = logger.formatDate(d.created_on);
       const idShort = d.id.slice(0, 8);
+      const details = [d.source, d.strategy].filter(Boolean).join(', ');
+      const detailsLabel = details ? chalk.gray(` | ${details}`) : '';
       const activeLabel = d.isActive
         ? chalk.yellow(' (ACTIVE - cannot delete)')
         : '';
 
-      console.log(
-        `  ${chalk.gray(`${index + 1}.`)} ${chalk.white(idShort)}... | ${chalk.gray(date)} | ${chalk.blue(d.author_email)}${activeLabel}`
+      print(
+        `  ${chalk.gray(`${index + 1}.`)} ${chalk.white(idShort)}... | ${chalk.gray(date)} | ${chalk.blue(d.author_email)}${detailsLabel}${activeLabel}`
       );
+      if (d.traffic) {
+        print(`     ${chalk.gray('traffic:')} ${d.traffic}`);
+      }
     });
-    console.log('');
+    print('');
   },
 
   /**
@@ -89,33 +109,138 @@ export const logger = {
         'workers/message'?: string;
         'workers/tag'?: string;
       };
-      isActive?: boolean;
+      protectedReason?: string;
+      /** Deployments referencing the version, printed on a second line */
+      deployments?: string;
+      /** Preview and alias URLs, printed one per line */
+      previewUrls?: Array<{ kind: string; url: string }>;
     }>
   ) => {
-    console.log('');
+    print('');
     versions.forEach((v, index) => {
       const date = logger.formatDate(v.metadata.created_on || '');
       const idShort = v.id.slice(0, 8);
       const author = v.metadata.author_email || 'unknown';
       const tag = v.annotations?.['workers/tag'] || '';
       const message = v.annotations?.['workers/message'] || '';
-      const activeLabel = v.isActive
-        ? chalk.yellow(' (ACTIVE - cannot delete)')
+      const activeLabel = v.protectedReason
+        ? chalk.yellow(` (${v.protectedReason} - cannot delete)`)
         : '';
       const tagLabel = tag ? chalk.magenta(` [${tag}]`) : '';
       const messageLabel = message ? chalk.gray(` - ${message}`) : '';
 
-      console.log(
+      print(
         `  ${chalk.gray(`${index + 1}.`)} ${chalk.white(idShort)}... | #${v.number} | ${chalk.gray(date)} | ${chalk.blue(author)}${tagLabel}${messageLabel}${activeLabel}`
       );
+      if (v.deployments) {
+        print(`     ${chalk.gray('deployments:')} ${v.deployments}`);
+      }
+      for (const { kind, url } of v.previewUrls ?? []) {
+        print(
+          `     ${chalk.gray(kind === 'alias' ? 'alias:' : 'preview:')} ${chalk.cyan(url)}`
+        );
+      }
     });
-    console.log('');
+    print('');
+  },
+
+  /**
+   * Print a table-like list of Pages deployments
+   */
+  printPagesDeployments: (
+    deployments: Array<{
+      id: string;
+      environment: string;
+      created_on: string;
+      url?: string;
+      deployment_trigger?: {
+        metadata?: { branch?: string; commit_hash?: string };
+      };
+      protectedReason?: string;
+    }>
+  ) => {
+    print('');
+    deployments.forEach((d, index) => {
+      const date = logger.formatDate(d.created_on);
+      const idShort = d.id.slice(0, 8);
+      const branch = d.deployment_trigger?.metadata?.branch || 'unknown';
+      const commit = d.deployment_trigger?.metadata?.commit_hash?.slice(0, 7);
+      const commitLabel = commit ? chalk.gray(` @ ${commit}`) : '';
+      const protectedLabel = d.protectedReason
+        ? chalk.yellow(` (${d.protectedReason} - cannot delete)`)
+        : '';
+
+      print(
+        `  ${chalk.gray(`${index + 1}.`)} ${chalk.white(idShort)}... | ${chalk.gray(date)} | ${d.environment} | ${chalk.magenta(branch)}${commitLabel}${protectedLabel}`
+      );
+      if (d.url) {
+        print(`     ${chalk.gray('url:')} ${d.url}`);
+      }
+    });
+    print('');
+  },
+
+  /**
+   * Print a simple aligned table
+   */
+  printTable: (headers: string[], rows: string[][]) => {
+    const widths = headers.map((header, column) =>
+      Math.max(header.length, ...rows.map((row) => (row[column] ?? '').length))
+    );
+    const format = (cells: string[]) =>
+      cells
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd();
+
+    print('');
+    print(`  ${chalk.bold(format(headers))}`);
+    print(`  ${chalk.gray(widths.map((w) => '-'.repeat(w)).join('  '))}`);
+    rows.forEach((row) => print(`  ${format(row)}`));
+    print('');
+  },
+
+  /**
+   * Print the workers.dev settings of each script, with changes as "before → after"
+   */
+  printPreviewSettings: (
+    results: Array<{
+      scriptName: string;
+      before?: { enabled: boolean; previews_enabled: boolean };
+      after?: { enabled: boolean; previews_enabled: boolean };
+      error?: string;
+    }>
+  ) => {
+    const state = (on: boolean) => (on ? 'on' : 'off');
+    const cell = (before: boolean, after: boolean) =>
+      before === after ? state(before) : `${state(before)} → ${state(after)}`;
+
+    logger.printTable(
+      ['Script', 'workers.dev', 'Previews', 'Status'],
+      results.map(({ scriptName, before, after, error }) =>
+        before && after
+          ? [
+              scriptName,
+              cell(before.enabled, after.enabled),
+              cell(before.previews_enabled, after.previews_enabled),
+              'ok',
+            ]
+          : [scriptName, '-', '-', `error: ${error}`]
+      )
+    );
+  },
+
+  /**
+   * Send all further human-readable output to stderr
+   */
+  redirectToStderr: () => {
+    useStderr = true;
   },
 
   /**
    * Print a blank line
    */
   newline: () => {
-    console.log('');
+    print('');
   },
 };
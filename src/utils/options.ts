@@ -0,0 +1,134 @@
+/**
+ * Parsers for command-line option values
+ */
+import { InvalidArgumentError } from 'commander';
+import { LIST_FORMATS, type ListFormat, type SortOrder } from './format.js';
+import type { TrafficEntry } from '../lib/traffic.js';
+import type { PagesEnvironment } from '../lib/cloudflare-api.js';
+
+/**
+ * Parse a positive integer option value (e.g. "--protect-recent 3")
+ */
+export function parsePositiveInteger(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new InvalidArgumentError('Must be a positive integer.');
+  }
+  return parsed;
+}
+
+/**
+ * Parse a non-negative integer option value (e.g. "--max-retries 0")
+ */
+export function parseNonNegativeInteger(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidArgumentError('Must be a non-negative integer.');
+  }
+  return parsed;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration option value (e.g. "30d", "12h", "2w") into milliseconds
+ */
+export function parseDuration(value: string): number {
+  const match = /^(\d+)\s*([mhdw])$/i.exec(value.trim());
+  if (!match) {
+    throw new InvalidArgumentError(
+      'Must be a duration such as 90m, 12h, 30d or 2w.'
+    );
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2].toLowerCase()];
+}
+
+/**
+ * Parse a Pages environment option value (preview or production)
+ */
+export function parsePagesEnvironment(value: string): PagesEnvironment {
+  const environment = value.toLowerCase();
+  if (environment !== 'preview' && environment !== 'production') {
+    throw new InvalidArgumentError('Must be one of: preview, production.');
+  }
+  return environment;
+}
+
+/**
+ * Parse a point in time: an ISO date (e.g. "2024-12-01") or a duration ago (e.g. "7d")
+ */
+export function parseDateOrDuration(value: string): Date {
+  if (/^\d+\s*[mhdw]$/i.test(value.trim())) {
+    return new Date(Date.now() - parseDuration(value));
+  }
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new InvalidArgumentError(
+      'Must be a date (e.g. 2024-12-01) or a duration ago (e.g. 7d).'
+    );
+  }
+  return new Date(time);
+}
+
+/**
+ * Parse a list output format (e.g. "--format csv")
+ */
+export function parseListFormat(value: string): ListFormat {
+  const format = value.toLowerCase() as ListFormat;
+  if (!LIST_FORMATS.includes(format)) {
+    throw new InvalidArgumentError(`Must be one of: ${LIST_FORMATS.join(', ')}.`);
+  }
+  return format;
+}
+
+/**
+ * Parse a comma-separated column list (e.g. "id,number,author")
+ */
+export function parseColumnList(value: string): string[] {
+  const columns = value
+    .split(',')
+    .map((column) => column.trim().toLowerCase())
+    .filter(Boolean);
+  if (columns.length === 0) {
+    throw new InvalidArgumentError('Must name at least one column.');
+  }
+  return columns;
+}
+
+/**
+ * Parse a sort order: a column name with an optional ":asc" or ":desc" suffix
+ */
+export function parseSortOrder(value: string): SortOrder {
+  const match = /^([a-z_]+)(?::(asc|desc))?$/i.exec(value.trim());
+  if (!match) {
+    throw new InvalidArgumentError(
+      'Must be a column name, optionally followed by :asc or :desc (e.g. created_on:desc).'
+    );
+  }
+  return {
+    column: match[1].toLowerCase(),
+    descending: match[2]?.toLowerCase() === 'desc',
+  };
+}
+
+/**
+ * Parse a repeatable version traffic share (e.g. "--split abc123=90")
+ */
+export function parseTrafficEntry(
+  value: string,
+  previous: TrafficEntry[] = []
+): TrafficEntry[] {
+  const match = /^([^=\s]+)=(\d+(?:\.\d+)?)%?$/.exec(value.trim());
+  const percentage = match ? Number(match[2]) : NaN;
+  if (!match || percentage <= 0 || percentage > 100) {
+    throw new InvalidArgumentError(
+      'Must be a version ID and a percentage between 0 and 100 (e.g. abc123=90).'
+    );
+  }
+  return [...previous, { versionId: match[1], percentage }];
+}
@@ -1,10 +1,39 @@
 /**
  * Interactive prompts for user input
  */
-import { checkbox, confirm } from '@inquirer/prompts';
+import { checkbox, confirm, input, number, select } from '@inquirer/prompts';
 import chalk from 'chalk';
-import type { Deployment, Version } from '../lib/cloudflare-api.js';
+import type {
+  Deployment,
+  PagesDeployment,
+  Version,
+} from '../lib/cloudflare-api.js';
+import type { ProtectedPagesDeployments } from '../lib/pages.js';
+import type { ProtectedVersions } from '../lib/protection.js';
+import { SafetyGuardError, type SafetyGuard } from '../lib/safety.js';
+import { MAX_SPLIT_VERSIONS, type TrafficEntry } from '../lib/traffic.js';
 import { logger } from './logger.js';
+import { assertInteractive } from './interactive.js';
+
+const SELECTION_FLAGS =
+  'Use --all or a retention policy option (e.g. --keep-last, --older-than) to select without prompting.';
+const PAGES_SELECTION_FLAGS =
+  'Use --all (optionally with --branch or --environment) to select without prompting.';
+const CONFIRMATION_FLAGS =
+  'Use -y/--force to skip the confirmation, or --dry-run to preview.';
+
+/**
+ * One-line description of a version for pickers
+ */
+function versionChoiceName(v: Version): string {
+  const date = logger.formatDate(v.metadata.created_on || '');
+  const idShort = v.id.slice(0, 8);
+  const author = v.metadata.author_email || 'unknown';
+  const tag = v.annotations?.['workers/tag'];
+  const tagLabel = tag ? ` [${tag}]` : '';
+
+  return `${idShort}... | #${v.number} | ${date} | ${author}${tagLabel}`;
+}
 
 /**
  * Display deployments and let user select which to delete
@@ -17,6 +46,8 @@ export async function selectDeploymentsToDelete(
     return [];
   }
 
+  assertInteractive('select deployments', SELECTION_FLAGS);
+
   const choices = deployments.map((d, index) => {
     const date = logger.formatDate(d.created_on);
     const idShort = d.id.slice(0, 8);
@@ -50,6 +81,8 @@ export async function confirmDeletion(
     return true;
   }
 
+  assertInteractive('confirm deletion', CONFIRMATION_FLAGS);
+
   return confirm({
     message: chalk.red(
       `You are about to delete ${count} deployment(s). This action cannot be undone. Continue?`
@@ -69,6 +102,8 @@ export async function confirmDeleteAll(
     return true;
   }
 
+  assertInteractive('confirm deletion', CONFIRMATION_FLAGS);
+
   return confirm({
     message: chalk.red(
       `You are about to delete ALL ${count} non-active deployment(s). This action cannot be undone. Continue?`
@@ -79,29 +114,27 @@ export async function confirmDeleteAll(
 
 /**
  * Display versions and let user select which to delete
- * The first version (active) is disabled and cannot be selected
+ * Protected versions (referenced by the active deployment) are disabled and cannot be selected
  */
 export async function selectVersionsToDelete(
-  versions: Version[]
+  versions: Version[],
+  protectedVersions: ProtectedVersions
 ): Promise<Version[]> {
   if (versions.length === 0) {
     return [];
   }
 
-  const choices = versions.map((v, index) => {
-    const date = logger.formatDate(v.metadata.created_on || '');
-    const idShort = v.id.slice(0, 8);
-    const author = v.metadata.author_email || 'unknown';
-    const tag = v.annotations?.['workers/tag'];
-    const tagLabel = tag ? ` [${tag}]` : '';
+  assertInteractive('select versions', SELECTION_FLAGS);
+
+  const choices = versions.map((v) => {
+    const protectedReason = protectedVersions.get(v.id);
 
     return {
-      name: `${idShort}... | #${v.number} | ${date} | ${author}${tagLabel}`,
+      name: versionChoiceName(v),
       value: v,
-      disabled:
-        index === 0
-          ? chalk.yellow('(Currently active - cannot delete)')
-          : false,
+      disabled: protectedReason
+        ? chalk.yellow(`(${protectedReason} - cannot delete)`)
+        : false,
     };
   });
 
@@ -124,6 +157,8 @@ export async function confirmVersionDeletion(
     return true;
   }
 
+  assertInteractive('confirm deletion', CONFIRMATION_FLAGS);
+
   return confirm({
     message: chalk.red(
       `You are about to delete ${count} version(s). This will remove their preview URLs permanently. Continue?`
@@ -143,6 +178,8 @@ export async function confirmDeleteAllVersions(
     return true;
   }
 
+  assertInteractive('confirm deletion', CONFIRMATION_FLAGS);
+
   return confirm({
     message: chalk.red(
       `You are about to delete ALL ${count} non-active version(s). This will remove all preview URLs permanently. Continue?`
@@ -150,3 +187,260 @@ export async function confirmDeleteAllVersions(
     default: false,
   });
 }
+
+/**
+ * Make the user type a confirmation for a guarded deletion
+ * -y/--force only skips the prompt together with --i-understand.
+ * @throws {SafetyGuardError} if --force is used without --i-understand
+ */
+export async function confirmTypedDeletion(
+  guard: SafetyGuard,
+  options: { force?: boolean; iUnderstand?: boolean } = {}
+): Promise<boolean> {
+  if (options.force) {
+    if (options.iUnderstand) {
+      return true;
+    }
+    throw new SafetyGuardError(
+      `-y/--force alone is not enough: ${guard.reason}. Add --i-understand to delete without typed confirmation.`
+    );
+  }
+
+  assertInteractive(
+    'confirm deletion',
+    `This deletion needs typed confirmation (${guard.reason}). Use -y/--force with --i-understand, or --dry-run to preview.`
+  );
+
+  logger.warn(chalk.yellow(`Typed confirmation required: ${guard.reason}.`));
+  const answer = await input({
+    message: chalk.red(`Type "${guard.expected}" to confirm deletion:`),
+  });
+
+  if (answer.trim() !== guard.expected) {
+    logger.error('Confirmation did not match.');
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Let the user pick the version to roll back to
+ * The version already serving all traffic is disabled.
+ */
+export async function selectVersionToDeploy(
+  versions: Version[],
+  traffic: Map<string, number>
+): Promise<Version> {
+  assertInteractive(
+    'select a version',
+    'Pass the version ID to roll back to as an argument.'
+  );
+
+  const choices = versions.map((v) => {
+    const percentage = traffic.get(v.id);
+
+    return {
+      name: percentage
+        ? `${versionChoiceName(v)} ${chalk.green(`(${percentage}% of traffic)`)}`
+        : versionChoiceName(v),
+      value: v,
+      disabled:
+        percentage === 100
+          ? chalk.yellow('(Currently serving all traffic)')
+          : false,
+    };
+  });
+
+  return select({
+    message: 'Select the version to roll back to:',
+    choices,
+    pageSize: 15,
+  });
+}
+
+/**
+ * Confirm a rollback with the user
+ */
+export async function confirmRollback(
+  scriptName: string,
+  version: Version,
+  options: { force?: boolean } = {}
+): Promise<boolean> {
+  if (options.force) {
+    return true;
+  }
+
+  assertInteractive('confirm rollback', CONFIRMATION_FLAGS);
+
+  return confirm({
+    message: chalk.red(
+      `Deploy version #${version.number} (${version.id.slice(0, 8)}...) to 100% of "${scriptName}" traffic?`
+    ),
+    default: false,
+  });
+}
+
+/**
+ * Let the user pick versions and give each a share of traffic
+ * The last version picked receives whatever share is left.
+ */
+export async function selectTrafficSplit(
+  versions: Version[],
+  traffic: Map<string, number>
+): Promise<TrafficEntry[]> {
+  assertInteractive(
+    'select versions',
+    'Pass each version and its share of traffic with --split <id>=<percent>.'
+  );
+
+  const chosen = await checkbox({
+    message:
+      'Select the versions to deploy (Space to select, Enter to confirm):',
+    choices: versions.map((v) => {
+      const percentage = traffic.get(v.id);
+      return {
+        name: percentage
+          ? `${versionChoiceName(v)} ${chalk.green(`(${percentage}% of traffic)`)}`
+          : versionChoiceName(v),
+        value: v,
+      };
+    }),
+    pageSize: 15,
+    validate: (items) =>
+      (items.length > 0 && items.length <= MAX_SPLIT_VERSIONS) ||
+      `Select 1 or ${MAX_SPLIT_VERSIONS} versions. A deployment can split traffic across at most ${MAX_SPLIT_VERSIONS}.`,
+  });
+
+  const entries: TrafficEntry[] = [];
+  let remaining = 100;
+  for (const [index, v] of chosen.entries()) {
+    const left = chosen.length - index - 1;
+    const percentage =
+      left === 0
+        ? remaining
+        : ((await number({
+            message: `Percentage of traffic for #${v.number} (${v.id.slice(0, 8)}...), ${remaining}% left:`,
+            min: 1,
+            max: remaining - left,
+            required: true,
+          })) ?? 0);
+    entries.push({ versionId: v.id, percentage });
+    remaining -= percentage;
+  }
+
+  return entries;
+}
+
+/**
+ * Confirm creating a deployment with the user
+ */
+export async function confirmDeploymentCreation(
+  scriptName: string,
+  count: number,
+  options: { force?: boolean } = {}
+): Promise<boolean> {
+  if (options.force) {
+    return true;
+  }
+
+  assertInteractive('confirm deployment', CONFIRMATION_FLAGS);
+
+  return confirm({
+    message: chalk.red(
+      `Create a deployment of "${scriptName}" that splits traffic across ${count} version(s)? It becomes active immediately.`
+    ),
+    default: false,
+  });
+}
+
+/**
+ * Confirm turning preview URLs (and optionally workers.dev routes) on or off
+ */
+export async function confirmPreviewSettingsChange(
+  enabled: boolean,
+  scriptNames: string[],
+  options: { force?: boolean; workersDev?: boolean } = {}
+): Promise<boolean> {
+  if (options.force) {
+    return true;
+  }
+
+  assertInteractive('confirm settings change', CONFIRMATION_FLAGS);
+
+  const target =
+    scriptNames.length === 1
+      ? `"${scriptNames[0]}"`
+      : `${scriptNames.length} scripts`;
+  const what = options.workersDev
+    ? 'preview URLs and the workers.dev route'
+    : 'preview URLs';
+  const effect = enabled
+    ? 'Every existing version becomes publicly reachable again.'
+    : 'Existing preview URLs stop responding immediately.';
+  return confirm({
+    message: chalk.red(
+      `${enabled ? 'Enable' : 'Disable'} ${what} of ${target}? ${effect} Continue?`
+    ),
+    default: false,
+  });
+}
+
+/**
+ * Display Pages deployments and let user select which to delete
+ * Protected deployments (production, latest per branch) are disabled
+ */
+export async function selectPagesDeploymentsToDelete(
+  deployments: PagesDeployment[],
+  protectedDeployments: ProtectedPagesDeployments
+): Promise<PagesDeployment[]> {
+  if (deployments.length === 0) {
+    return [];
+  }
+
+  assertInteractive('select Pages deployments', PAGES_SELECTION_FLAGS);
+
+  const choices = deployments.map((d) => {
+    const date = logger.formatDate(d.created_on);
+    const idShort = d.id.slice(0, 8);
+    const branch = d.deployment_trigger?.metadata?.branch || 'unknown';
+    const protectedReason = protectedDeployments.get(d.id);
+
+    return {
+      name: `${idShort}... | ${date} | ${d.environment} | ${branch}`,
+      value: d,
+      disabled: protectedReason
+        ? chalk.yellow(`(${protectedReason} - cannot delete)`)
+        : false,
+    };
+  });
+
+  return checkbox({
+    message:
+      'Select Pages deployments to delete (Space to select, Enter to confirm):',
+    choices,
+    pageSize: 15,
+  });
+}
+
+/**
+ * Confirm Pages deployment deletion with the user
+ */
+export async function confirmPagesDeletion(
+  projectName: string,
+  count: number,
+  options: { force?: boolean; all?: boolean } = {}
+): Promise<boolean> {
+  if (options.force) {
+    return true;
+  }
+
+  assertInteractive('confirm deletion', CONFIRMATION_FLAGS);
+
+  const scope = options.all ? `ALL ${count} unprotected` : `${count}`;
+  return confirm({
+    message: chalk.red(
+      `You are about to delete ${scope} deployment(s) of Pages project "${projectName}". Their preview URLs stop working. This action cannot be undone. Continue?`
+    ),
+    default: false,
+  });
+}
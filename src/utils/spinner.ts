@@ -0,0 +1,14 @@
+/**
+ * Progress spinners, disabled in non-interactive mode
+ */
+import ora, { type Ora } from 'ora';
+import { isInteractive } from './interactive.js';
+
+/**
+ * Start a spinner
+ * In non-interactive mode the spinner is not animated; the initial text
+ * is logged once instead of being redrawn.
+ */
+export function startSpinner(text: string): Ora {
+  return ora({ text, isEnabled: isInteractive() ? undefined : false }).start();
+}
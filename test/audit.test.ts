@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AuditRecorder, readAuditLog } from '../src/index.js';
+
+describe('audit recorder', () => {
+  it('appends each entry as soon as it is recorded', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'cwc-audit-'));
+    const path = join(dir, 'audit.jsonl');
+    const audit = new AuditRecorder(
+      { accountId: 'acct', operator: 'tester' },
+      'version',
+      (id: string) => ({ id }),
+      path
+    );
+
+    try {
+      audit.record('app', 'v1');
+      await audit.close();
+      assert.deepEqual(
+        (await readAuditLog({}, path)).map((e) => e.id),
+        ['v1']
+      );
+
+      audit.record('app', 'v2', 'Injected 500 response');
+      assert.equal(await audit.close(), undefined);
+
+      const entries = await readAuditLog({}, path);
+      assert.deepEqual(
+        entries.map((e) => [e.id, e.outcome, e.operator]),
+        [
+          ['v1', 'success', 'tester'],
+          ['v2', 'failed', 'tester'],
+        ]
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,395 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  CheckpointRecorder,
+  CloudflareAPI,
+  CloudflareAPIError,
+  RateLimitError,
+  createCheckpoint,
+  executeVersionCleanup,
+  planDeploymentCleanup,
+  planVersionCleanup,
+  runBulk,
+} from '../src/index.js';
+import { FakeCloudflare } from '../src/testing/fake-cloudflare.js';
+import { seedWorker } from './helpers.js';
+
+function client(fake: FakeCloudflare, apiToken = fake.apiToken) {
+  return new CloudflareAPI({
+    accountId: fake.accountId,
+    apiToken,
+    fetch: fake.fetch,
+    baseUrl: 'https://fake.test/client/v4',
+    retry: { maxRetries: 0 },
+  });
+}
+
+describe('CloudflareAPI against the fake', () => {
+  it('sends requests through the configured fetch and baseUrl', async () => {
+    const fake = new FakeCloudflare();
+    seedWorker(fake, 'app', 2);
+    const seen: string[] = [];
+
+    const api = new CloudflareAPI({
+      accountId: fake.accountId,
+      apiToken: fake.apiToken,
+      baseUrl: 'https://proxy.test/cf/',
+      fetch: async (input, init) => {
+        seen.push(String(input));
+        return fake.fetch(input, init);
+      },
+    });
+    await api.listDeployments('app');
+
+    assert.deepEqual(seen, [
+      `https://proxy.test/cf/accounts/${fake.accountId}/workers/scripts/app/deployments?per_page=100&page=1`,
+    ]);
+  });
+
+  it('follows pagination across pages', async () => {
+    const fake = new FakeCloudflare({ maxPageSize: 2 });
+    seedWorker(fake, 'app', 5);
+
+    const { items, totalCount, truncated } = await client(fake).listVersions(
+      'app'
+    );
+
+    assert.equal(items.length, 5);
+    assert.equal(totalCount, 5);
+    assert.equal(truncated, false);
+    assert.deepEqual(
+      fake.requests.map((r) => r.query.page),
+      ['1', '2', '3']
+    );
+  });
+
+  it('stops at maxItems and reports truncation', async () => {
+    const fake = new FakeCloudflare();
+    seedWorker(fake, 'app', 5);
+
+    const { items, totalCount, truncated } = await client(fake).listVersions(
+      'app',
+      { pageSize: 2, maxItems: 3 }
+    );
+
+    assert.equal(items.length, 3);
+    assert.equal(totalCount, 5);
+    assert.equal(truncated, true);
+  });
+
+  it('maps injected 403, 404 and 429 responses to errors', async () => {
+    const fake = new FakeCloudflare();
+    seedWorker(fake, 'app', 1);
+    const api = client(fake);
+    const versions = '/workers/scripts/app/versions';
+
+    fake.fail({ path: versions, status: 403 });
+    await assert.rejects(api.listVersions('app'), {
+      name: 'CloudflareAPIError',
+      statusCode: 403,
+    });
+
+    fake.fail({ path: versions, status: 404 });
+    await assert.rejects(api.listVersions('app'), {
+      statusCode: 404,
+    });
+
+    fake.fail({ path: versions, status: 429, retryAfter: 7 });
+    await assert.rejects(api.listVersions('app'), (error) => {
+      assert.ok(error instanceof RateLimitError);
+      assert.equal(error.retryAfter, 7);
+      return true;
+    });
+  });
+
+  it('retries a rate-limited request after Retry-After', async () => {
+    const fake = new FakeCloudflare();
+    seedWorker(fake, 'app', 1);
+    fake.fail({
+      path: '/workers/scripts/app/versions',
+      status: 429,
+      retryAfter: 0,
+      times: 2,
+    });
+
+    const api = new CloudflareAPI({
+      accountId: fake.accountId,
+      apiToken: fake.apiToken,
+      fetch: fake.fetch,
+    });
+    const { items } = await api.listVersions('app');
+
+    assert.equal(items.length, 1);
+    assert.equal(fake.requests.length, 3);
+  });
+
+  it('caps Retry-After at maxDelayMs', { timeout: 5000 }, async () => {
+    const fake = new FakeCloudflare();
+    seedWorker(fake, 'app', 1);
+    fake.fail({
+      path: '/workers/scripts/app/versions',
+      status: 429,
+      retryAfter: 3600,
+    });
+
+    const api = new CloudflareAPI({
+      accountId: fake.accountId,
+      apiToken: fake.apiToken,
+      fetch: fake.fetch,
+      retry: { maxRetries: 1, maxDelayMs: 1 },
+    });
+    const { items } = await api.listVersions('app');
+
+    assert.equal(items.length, 1);
+  });
+
+  it('returns no content only when the content endpoint is missing', async () => {
+    const fake = new FakeCloudflare();
+    const [active] = seedWorker(fake, 'app', 1);
+    const api = client(fake);
+    const content = `/workers/scripts/app/versions/${active.id}/content`;
+
+    fake.fail({ path: content, status: 404 });
+    assert.equal(await api.getVersionContent('app', active.id), undefined);
+
+    fake.fail({ path: content, status: 500 });
+    await assert.rejects(api.getVersionContent('app', active.id), {
+      statusCode: 500,
+    });
+  });
+
+  it('does not retry a deployment after a server error', async () => {
+    const fake = new FakeCloudflare();
+    const [active] = seedWorker(fake, 'app', 1);
+    fake.fail({ method: 'POST', path: /\/deployments$/, status: 500 });
+    const api = new CloudflareAPI({
+      accountId: fake.accountId,
+      apiToken: fake.apiToken,
+      fetch: fake.fetch,
+      retry: { maxRetries: 3, baseDelayMs: 1 },
+    });
+
+    await assert.rejects(
+      api.createDeployment('app', {
+        versions: [{ version_id: active.id, percentage: 100 }],
+      }),
+      { statusCode: 500 }
+    );
+    assert.equal(fake.requests.length, 1);
+  });
+
+  it('treats a retried delete that finds nothing as deleted', async () => {
+    const fake = new FakeCloudflare();
+    const [, previous] = seedWorker(fake, 'app', 2);
+    let dropped = false;
+    const api = new CloudflareAPI({
+      accountId: fake.accountId,
+      apiToken: fake.apiToken,
+      retry: { maxRetries: 3, baseDelayMs: 1 },
+      // The first delete succeeds, but its response is lost
+      fetch: async (input, init) => {
+        const response = await fake.fetch(input, init);
+        if (init?.method === 'DELETE' && !dropped) {
+          dropped = true;
+          return new Response('Bad gateway', { status: 502 });
+        }
+        return response;
+      },
+    });
+
+    const result = await api.deleteVersions('app', [previous.id]);
+
+    assert.deepEqual(result.success, [previous.id]);
+    assert.deepEqual(result.failed, []);
+    assert.equal(fake.versions('app').length, 1);
+  });
+
+  it('rejects a bad token and an unknown script', async () => {
+    const fake = new FakeCloudflare();
+    seedWorker(fake, 'app', 1);
+
+    await assert.rejects(client(fake, 'wrong').listScripts(), {
+      statusCode: 403,
+    });
+    await assert.rejects(client(fake).listDeployments('missing'), (error) => {
+      assert.ok(error instanceof CloudflareAPIError);
+      assert.equal(error.statusCode, 404);
+      assert.match(error.message, /Script "missing" not found/);
+      return true;
+    });
+  });
+
+  it('names the missing Pages project in a 404', async () => {
+    const fake = new FakeCloudflare();
+
+    await assert.rejects(client(fake).getPagesProject('site'), {
+      statusCode: 404,
+      message: /^Pages project "site" not found/,
+    });
+  });
+
+  it('refuses to delete the active version or deployment', async () => {
+    const fake = new FakeCloudflare();
+    const [active, previous] = seedWorker(fake, 'app', 2);
+    const api = client(fake);
+
+    const versions = await api.deleteVersions('app', [active.id, previous.id]);
+    assert.deepEqual(versions.success, [previous.id]);
+    assert.equal(versions.failed[0].id, active.id);
+    assert.equal(versions.failed[0].status, 400);
+
+    const [current] = fake.deployments('app');
+    await assert.rejects(api.deleteDeployment('app', current.id), {
+      statusCode: 400,
+    });
+  });
+});
+
+describe('cleanup plans', () => {
+  it('never plans protected versions', async () => {
+    const fake = new FakeCloudflare();
+    const [active, second, third, oldest] = seedWorker(fake, 'app', 4);
+
+    const plan = await planVersionCleanup(client(fake), 'app', {
+      all: true,
+      rules: { tags: ['release-*'], messages: [], pinned: [second.id] },
+    });
+
+    assert.deepEqual(
+      plan.toDelete.map((v) => v.id),
+      [third.id]
+    );
+    assert.deepEqual(
+      plan.protected.map((p) => p.version.id),
+      [active.id, second.id, oldest.id]
+    );
+  });
+
+  it('plans nothing without criteria or all', async () => {
+    const fake = new FakeCloudflare();
+    seedWorker(fake, 'app', 3);
+
+    const plan = await planVersionCleanup(client(fake), 'app');
+
+    assert.equal(plan.toDelete.length, 0);
+  });
+
+  it('applies retention criteria and returns failures as results', async () => {
+    const fake = new FakeCloudflare();
+    const versions = seedWorker(fake, 'app', 4);
+    const api = client(fake);
+
+    const plan = await planVersionCleanup(api, 'app', { keepLast: 2 });
+    assert.deepEqual(
+      plan.toDelete.map((v) => v.id),
+      versions.slice(2).map((v) => v.id)
+    );
+
+    fake.fail({
+      method: 'DELETE',
+      path: `/workers/scripts/app/versions/${versions[3].id}`,
+      status: 500,
+    });
+    const result = await executeVersionCleanup(api, plan);
+
+    assert.deepEqual(
+      result.deleted.map((v) => v.id),
+      [versions[2].id]
+    );
+    assert.equal(result.failed[0].item.id, versions[3].id);
+    assert.equal(result.failed[0].status, 500);
+    assert.equal(fake.versions('app').length, 3);
+  });
+
+  it('settles items as they finish and reports progress in input order', async () => {
+    const delays: Record<string, number> = { slow: 20, fast: 1 };
+    const settled: string[] = [];
+    const progress: string[] = [];
+
+    await assert.rejects(
+      runBulk(
+        ['slow', 'fast'],
+        (id) => new Promise((resolve) => setTimeout(resolve, delays[id])),
+        {
+          concurrency: 2,
+          onSettled: (id) => settled.push(id),
+          onProgress: (_completed, _total, id) => {
+            progress.push(id);
+            if (id === 'slow') {
+              throw new Error('display failed');
+            }
+          },
+        }
+      ),
+      /display failed/
+    );
+
+    assert.deepEqual(settled, ['fast', 'slow']);
+    assert.deepEqual(progress, ['slow', 'fast']);
+  });
+
+  it('backs up first and records every outcome in the checkpoint', async () => {
+    const fake = new FakeCloudflare();
+    const [, second, third] = seedWorker(fake, 'app', 3);
+    const dir = await mkdtemp(join(tmpdir(), 'cwc-cleanup-'));
+    fake.fail({
+      method: 'GET',
+      path: `/workers/scripts/app/versions/${third.id}`,
+      status: 500,
+      times: Infinity,
+    });
+    const checkpoint = new CheckpointRecorder(
+      join(dir, 'checkpoint.json'),
+      createCheckpoint(fake.accountId, 'version', [
+        { scriptName: 'app', id: second.id },
+        { scriptName: 'app', id: third.id },
+      ])
+    );
+    const outcomes: string[] = [];
+
+    try {
+      const result = await executeVersionCleanup(
+        client(fake),
+        { scriptName: 'app', toDelete: [second, third] },
+        {
+          backupDir: join(dir, 'backup'),
+          checkpoint,
+          onOutcome: (version, failure) =>
+            outcomes.push(`${version.id}:${failure ? 'failed' : 'deleted'}`),
+        }
+      );
+      await checkpoint.close();
+
+      assert.deepEqual(
+        result.deleted.map((v) => v.id),
+        [second.id]
+      );
+      assert.match(result.failed[0].error, /^Backup failed/);
+      assert.deepEqual(outcomes, [`${third.id}:failed`, `${second.id}:deleted`]);
+      assert.deepEqual(
+        checkpoint.checkpoint.items.map((item) => item.status),
+        ['done', 'failed']
+      );
+      assert.equal(fake.versions('app').length, 2);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('keeps the active deployment out of deployment plans', async () => {
+    const fake = new FakeCloudflare();
+    seedWorker(fake, 'app', 3);
+    const [active] = fake.deployments('app');
+
+    const plan = await planDeploymentCleanup(client(fake), 'app', {
+      all: true,
+    });
+
+    assert.equal(plan.active?.id, active.id);
+    assert.equal(plan.toDelete.length, 2);
+    assert.ok(plan.toDelete.every((d) => d.id !== active.id));
+  });
+});
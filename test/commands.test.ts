@@ -0,0 +1,643 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, readdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Version } from '../src/lib/cloudflare-api.js';
+import { seedWorker, startHarness, type Harness } from './helpers.js';
+
+describe('CLI commands against the fake API', () => {
+  let harness: Harness;
+  let versions: Version[];
+
+  beforeEach(async () => {
+    harness = await startHarness();
+    versions = seedWorker(harness.fake, 'app', 3);
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  describe('list', () => {
+    it('prints every deployment', async () => {
+      const { code, stdout } = await harness.run([
+        'list',
+        'app',
+        '--format',
+        'json',
+      ]);
+
+      assert.equal(code, 0);
+      assert.equal(JSON.parse(stdout).length, 3);
+    });
+
+    it('exits 6 for a missing script', async () => {
+      const { code, stderr } = await harness.run(['list', 'missing']);
+
+      assert.equal(code, 6);
+      assert.match(stderr, /not found/);
+    });
+
+    it('exits 5 when the token is rejected', async () => {
+      const { code } = await harness.run(['list', 'app'], {
+        CLOUDFLARE_API_TOKEN: 'wrong',
+      });
+
+      assert.equal(code, 5);
+    });
+  });
+
+  describe('delete', () => {
+    it('deletes every inactive deployment', async () => {
+      const [active] = harness.fake.deployments('app');
+
+      const { code } = await harness.run(['delete', 'app', '--all', '-y']);
+
+      assert.equal(code, 0);
+      assert.deepEqual(
+        harness.fake.deployments('app').map((d) => d.id),
+        [active.id]
+      );
+    });
+
+    it('refuses to prompt when not interactive', async () => {
+      const { code, stderr } = await harness.run(['delete', 'app', '--all']);
+
+      assert.equal(code, 2);
+      assert.match(stderr, /-y/);
+      assert.equal(harness.fake.deployments('app').length, 3);
+    });
+
+    it('changes nothing in a dry run', async () => {
+      const { code, stdout } = await harness.run([
+        'delete',
+        'app',
+        '--keep-last',
+        '1',
+        '--dry-run',
+      ]);
+
+      assert.equal(code, 0);
+      assert.match(stdout, /DRY RUN/);
+      assert.equal(harness.fake.deployments('app').length, 3);
+    });
+  });
+
+  describe('versions list', () => {
+    it('prints every version', async () => {
+      const { code, stdout } = await harness.run([
+        'versions',
+        'list',
+        'app',
+        '--format',
+        'json',
+      ]);
+
+      assert.equal(code, 0);
+      assert.deepEqual(
+        JSON.parse(stdout).map((row: { id: string }) => row.id),
+        versions.map((v) => v.id)
+      );
+    });
+
+    it('includes preview URLs in --json', async () => {
+      const { code, stdout } = await harness.run([
+        'versions',
+        'list',
+        'app',
+        '--json',
+      ]);
+
+      assert.equal(code, 0);
+      const [newest] = JSON.parse(stdout);
+      assert.match(newest.preview_url, /^https:\/\/[0-9a-f]{8}-app\./);
+    });
+  });
+
+  describe('versions delete', () => {
+    it('deletes every version except the active one', async () => {
+      const { code, stdout } = await harness.run([
+        'versions',
+        'delete',
+        'app',
+        '--all',
+        '-y',
+        '--json',
+      ]);
+
+      assert.equal(code, 0);
+      const report = JSON.parse(stdout);
+      assert.equal(report.deleted.length, 2);
+      assert.deepEqual(
+        report.protected.map((item: { id: string }) => item.id),
+        [versions[0].id]
+      );
+      assert.deepEqual(
+        harness.fake.versions('app').map((v) => v.id),
+        [versions[0].id]
+      );
+    });
+
+    it('keeps versions matched by protection rules', async () => {
+      const { code } = await harness.run([
+        'versions',
+        'delete',
+        'app',
+        '--all',
+        '-y',
+        '--protect-tag',
+        'release-*',
+      ]);
+
+      assert.equal(code, 0);
+      assert.deepEqual(
+        harness.fake.versions('app').map((v) => v.id),
+        [versions[0].id, versions[2].id]
+      );
+    });
+
+    it('protects versions pinned by ID prefix and warns about unknown pins', async () => {
+      const { code, stdout } = await harness.run([
+        'versions',
+        'delete',
+        'app',
+        '--all',
+        '-y',
+        '--pin',
+        versions[1].id.slice(0, 8),
+        'ffffffff',
+      ]);
+
+      assert.equal(code, 0);
+      assert.match(stdout, /Pin "ffffffff" matches no version of "app"/);
+      assert.deepEqual(
+        harness.fake.versions('app').map((v) => v.id),
+        [versions[0].id, versions[1].id]
+      );
+    });
+
+    it('exits 5 on a permission error', async () => {
+      harness.fake.fail({
+        path: '/workers/scripts/app/versions',
+        status: 403,
+      });
+
+      const { code, stderr } = await harness.run([
+        'versions',
+        'delete',
+        'app',
+        '--all',
+        '-y',
+      ]);
+
+      assert.equal(code, 5);
+      assert.match(stderr, /Permission denied/);
+    });
+
+    it('exits 4 on partial failure and retries the failures', async () => {
+      harness.fake.fail({
+        method: 'DELETE',
+        path: `/workers/scripts/app/versions/${versions[2].id}`,
+        status: 500,
+      });
+
+      const first = await harness.run([
+        'versions',
+        'delete',
+        'app',
+        '--all',
+        '-y',
+      ]);
+      assert.equal(first.code, 4);
+      assert.equal(harness.fake.versions('app').length, 2);
+
+      const retry = await harness.run(['retry-failed', '-y']);
+      assert.equal(retry.code, 0);
+      assert.equal(harness.fake.versions('app').length, 1);
+    });
+
+    it('resumes an interrupted run from its checkpoint', async () => {
+      // The run was interrupted after deleting a version it had not yet saved
+      const gone = 'ffffffff-0000-4000-8000-000000000000';
+      const checkpointFile = join(harness.dir, 'interrupted.json');
+      const now = new Date().toISOString();
+      await writeFile(
+        checkpointFile,
+        JSON.stringify({
+          formatVersion: 1,
+          createdAt: now,
+          updatedAt: now,
+          accountId: harness.fake.accountId,
+          resourceType: 'version',
+          items: [gone, versions[1].id, versions[2].id].map((id) => ({
+            scriptName: 'app',
+            id,
+            status: 'pending',
+          })),
+        })
+      );
+
+      const { code } = await harness.run([
+        'versions',
+        'delete',
+        '--resume',
+        checkpointFile,
+        '-y',
+      ]);
+
+      assert.equal(code, 0);
+      assert.deepEqual(
+        harness.fake.versions('app').map((v) => v.id),
+        [versions[0].id]
+      );
+      const { items } = JSON.parse(await readFile(checkpointFile, 'utf8'));
+      assert.deepEqual(
+        items.map((item: { status: string }) => item.status),
+        ['done', 'done', 'done']
+      );
+    });
+
+    it('counts a version deleted during a resumed run as done', async () => {
+      const checkpointFile = join(harness.dir, 'interrupted.json');
+      const now = new Date().toISOString();
+      await writeFile(
+        checkpointFile,
+        JSON.stringify({
+          formatVersion: 1,
+          createdAt: now,
+          updatedAt: now,
+          accountId: harness.fake.accountId,
+          resourceType: 'version',
+          items: [versions[1].id, versions[2].id].map((id) => ({
+            scriptName: 'app',
+            id,
+            status: 'pending',
+          })),
+        })
+      );
+      // Someone else deletes it between listing and deletion
+      harness.fake.fail({
+        method: 'DELETE',
+        path: `/workers/scripts/app/versions/${versions[2].id}`,
+        status: 404,
+      });
+
+      const { code } = await harness.run([
+        'versions',
+        'delete',
+        '--resume',
+        checkpointFile,
+        '-y',
+      ]);
+
+      assert.equal(code, 0);
+      const { items } = JSON.parse(await readFile(checkpointFile, 'utf8'));
+      assert.deepEqual(
+        items.map((item: { status: string }) => item.status),
+        ['done', 'done']
+      );
+    });
+
+    it('skips failures that became protected, without touching the checkpoint in a dry run', async () => {
+      harness.fake.fail({
+        method: 'DELETE',
+        path: `/workers/scripts/app/versions/${versions[2].id}`,
+        status: 500,
+      });
+      await harness.run(['versions', 'delete', 'app', '--all', '-y']);
+      await harness.run(['rollback', 'app', versions[2].id, '-y']);
+      const checkpointFile = join(harness.dir, 'state', 'cwc', 'last-run.json');
+      const saved = await readFile(checkpointFile, 'utf8');
+
+      const dryRun = await harness.run(['retry-failed', '--dry-run']);
+      assert.equal(dryRun.code, 3);
+      assert.equal(await readFile(checkpointFile, 'utf8'), saved);
+
+      const retry = await harness.run(['retry-failed', '-y']);
+      assert.equal(retry.code, 3);
+      const { items } = JSON.parse(await readFile(checkpointFile, 'utf8'));
+      assert.deepEqual(
+        items.map((item: { status: string }) => item.status),
+        ['done', 'skipped']
+      );
+
+      const again = await harness.run(['retry-failed', '-y']);
+      assert.equal(again.code, 3);
+      assert.match(again.stdout, /No failed deletions/);
+    });
+
+    it('requires --i-understand above the confirmation threshold', async () => {
+      await mkdir(join(harness.dir, 'config', 'cwc'), { recursive: true });
+      await writeFile(
+        join(harness.dir, 'config', 'cwc', 'config.toml'),
+        '[safety]\nconfirm_threshold = 1\n'
+      );
+      const args = ['versions', 'delete', 'app', '--all', '-y'];
+
+      const refused = await harness.run(args);
+      assert.equal(refused.code, 2);
+      assert.equal(harness.fake.versions('app').length, 3);
+
+      const accepted = await harness.run([...args, '--i-understand']);
+      assert.equal(accepted.code, 0);
+      assert.equal(harness.fake.versions('app').length, 1);
+    });
+
+    it('deletes across every script with --all-scripts', async () => {
+      seedWorker(harness.fake, 'other', 2);
+
+      const { code } = await harness.run([
+        'versions',
+        'delete',
+        '--all-scripts',
+        '--all',
+        '-y',
+        '--i-understand',
+      ]);
+
+      assert.equal(code, 0);
+      assert.equal(harness.fake.versions('app').length, 1);
+      assert.equal(harness.fake.versions('other').length, 1);
+    });
+
+    it('exits 4 and reports scripts that could not be scanned', async () => {
+      seedWorker(harness.fake, 'other', 2);
+      harness.fake.fail({
+        method: 'GET',
+        path: '/workers/scripts/other/versions',
+        status: 500,
+        times: Infinity,
+      });
+
+      const { code, stdout } = await harness.run([
+        'versions',
+        'delete',
+        '--all-scripts',
+        '--all',
+        '-y',
+        '--i-understand',
+        '--json',
+      ]);
+
+      assert.equal(code, 4);
+      const report = JSON.parse(stdout);
+      assert.equal(report.deleted.length, 2);
+      assert.deepEqual(
+        report.scanFailed.map((s: { scriptName: string }) => s.scriptName),
+        ['other']
+      );
+      assert.equal(harness.fake.versions('other').length, 2);
+    });
+
+    it('backs up versions before deleting them', async () => {
+      const backupDir = join(harness.dir, 'backup');
+
+      const { code } = await harness.run([
+        'versions',
+        'delete',
+        'app',
+        '--all',
+        '-y',
+        '--backup-dir',
+        backupDir,
+      ]);
+
+      assert.equal(code, 0);
+      assert.equal((await readdir(join(backupDir, 'app'))).length, 2);
+    });
+  });
+
+  describe('versions plan and apply', () => {
+    it('deletes exactly what the plan recorded', async () => {
+      const planFile = join(harness.dir, 'plan.json');
+
+      const plan = await harness.run([
+        'versions',
+        'plan',
+        'app',
+        '--keep-last',
+        '2',
+        '--out',
+        planFile,
+      ]);
+      assert.equal(plan.code, 0);
+      assert.ok(existsSync(planFile));
+
+      const apply = await harness.run(['apply', planFile, '-y']);
+      assert.equal(apply.code, 0);
+      assert.deepEqual(
+        harness.fake.versions('app').map((v) => v.id),
+        versions.slice(0, 2).map((v) => v.id)
+      );
+    });
+
+    it('refuses a plan whose inventory changed', async () => {
+      const planFile = join(harness.dir, 'plan.json');
+      await harness.run(['versions', 'plan', 'app', '--all', '--out', planFile]);
+      harness.fake.addVersion('app');
+
+      const { code } = await harness.run(['apply', planFile, '-y']);
+
+      assert.notEqual(code, 0);
+      assert.equal(harness.fake.versions('app').length, 4);
+    });
+  });
+
+  describe('versions export', () => {
+    it('writes each version to disk without deleting', async () => {
+      const outDir = join(harness.dir, 'export');
+
+      const { code } = await harness.run([
+        'versions',
+        'export',
+        'app',
+        '--out-dir',
+        outDir,
+      ]);
+
+      assert.equal(code, 0);
+      assert.equal((await readdir(join(outDir, 'app'))).length, 3);
+      assert.equal(harness.fake.versions('app').length, 3);
+    });
+
+    it('selects versions by ID prefix', async () => {
+      const outDir = join(harness.dir, 'export');
+      const [newest] = harness.fake.versions('app');
+
+      const { code } = await harness.run([
+        'versions',
+        'export',
+        'app',
+        '--out-dir',
+        outDir,
+        '--version-id',
+        newest.id.slice(0, 8),
+      ]);
+
+      assert.equal(code, 0);
+      assert.equal((await readdir(join(outDir, 'app'))).length, 1);
+    });
+
+    it('rejects an ambiguous ID prefix', async () => {
+      const outDir = join(harness.dir, 'export');
+
+      const { code, stderr } = await harness.run([
+        'versions',
+        'export',
+        'app',
+        '--out-dir',
+        outDir,
+        '--version-id',
+        '0000000',
+      ]);
+
+      assert.equal(code, 1);
+      assert.match(stderr, /ambiguous/);
+    });
+  });
+
+  describe('scan', () => {
+    it('summarizes every script', async () => {
+      seedWorker(harness.fake, 'other', 1);
+
+      const { code, stdout } = await harness.run(['scan', '--json']);
+
+      assert.equal(code, 0);
+      const results = JSON.parse(stdout);
+      assert.deepEqual(
+        results.map((r: { scriptName: string; deletable: string[] }) => [
+          r.scriptName,
+          r.deletable.length,
+        ]),
+        [
+          ['app', 2],
+          ['other', 0],
+        ]
+      );
+    });
+
+    it('exits 4 when a script could not be scanned', async () => {
+      seedWorker(harness.fake, 'other', 1);
+      harness.fake.fail({
+        method: 'GET',
+        path: '/workers/scripts/other/versions',
+        status: 500,
+        times: Infinity,
+      });
+
+      const { code, stdout } = await harness.run(['scan', '--json']);
+
+      assert.equal(code, 4);
+      assert.deepEqual(
+        JSON.parse(stdout).map((r: { scriptName: string; error?: string }) => [
+          r.scriptName,
+          r.error === undefined,
+        ]),
+        [
+          ['app', true],
+          ['other', false],
+        ]
+      );
+    });
+  });
+
+  describe('audit show', () => {
+    it('lists the deletions that were made', async () => {
+      await harness.run(['versions', 'delete', 'app', '--all', '-y']);
+
+      const { code, stdout } = await harness.run([
+        'audit',
+        'show',
+        '--script',
+        'app',
+        '--json',
+      ]);
+
+      assert.equal(code, 0);
+      assert.equal(JSON.parse(stdout).length, 2);
+    });
+  });
+
+  describe('rollback', () => {
+    it('sends all traffic to an earlier version', async () => {
+      const { code } = await harness.run([
+        'rollback',
+        'app',
+        versions[2].id,
+        '-y',
+        '-m',
+        'back out',
+      ]);
+
+      assert.equal(code, 0);
+      const [active] = harness.fake.deployments('app');
+      assert.deepEqual(active.versions, [
+        { version_id: versions[2].id, percentage: 100 },
+      ]);
+      assert.equal(active.annotations?.['workers/message'], 'back out');
+    });
+
+    it('exits 3 when the version already serves all traffic', async () => {
+      const { code } = await harness.run([
+        'rollback',
+        'app',
+        versions[0].id,
+        '-y',
+      ]);
+
+      assert.equal(code, 3);
+      assert.equal(harness.fake.deployments('app').length, 3);
+    });
+  });
+
+  describe('deployments create', () => {
+    it('splits traffic across versions', async () => {
+      const { code } = await harness.run([
+        'deployments',
+        'create',
+        'app',
+        '--split',
+        `${versions[0].id}=90`,
+        '--split',
+        `${versions[1].id}=10`,
+        '-y',
+      ]);
+
+      assert.equal(code, 0);
+      const [active] = harness.fake.deployments('app');
+      assert.deepEqual(active.versions, [
+        { version_id: versions[0].id, percentage: 90 },
+        { version_id: versions[1].id, percentage: 10 },
+      ]);
+    });
+
+    it('exits 2 when the split does not add up to 100', async () => {
+      const { code } = await harness.run([
+        'deployments',
+        'create',
+        'app',
+        '--split',
+        `${versions[0].id}=90`,
+        '-y',
+      ]);
+
+      assert.equal(code, 2);
+      assert.equal(harness.fake.deployments('app').length, 3);
+    });
+
+    it('exits 2 when the split names more than two versions', async () => {
+      const { code, stderr } = await harness.run([
+        'deployments',
+        'create',
+        'app',
+        ...versions.flatMap((v, i) => ['--split', `${v.id}=${i ? 25 : 50}`]),
+        '-y',
+      ]);
+
+      assert.equal(code, 2);
+      assert.match(stderr, /at most 2 versions/);
+      assert.equal(harness.fake.deployments('app').length, 3);
+    });
+  });
+});
@@ -0,0 +1,14 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchesGlob } from '../src/utils/glob.js';
+
+describe('glob matching', () => {
+  it('matches wildcards across line breaks', () => {
+    const message = 'hotfix: restore login\n\nReverts the session change.';
+
+    assert.ok(matchesGlob(message, 'hotfix*'));
+    assert.ok(matchesGlob(message, '*session*'));
+    assert.ok(matchesGlob('a\nb', 'a?b'));
+    assert.ok(!matchesGlob(message, 'release*'));
+  });
+});
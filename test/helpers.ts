@@ -0,0 +1,103 @@
+/**
+ * Shared fixtures: a seeded fake API and a way to run the CLI against it
+ */
+import { spawn } from 'node:child_process';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  FakeCloudflare,
+  type FakeServer,
+} from '../src/testing/fake-cloudflare.js';
+import type { Version } from '../src/lib/cloudflare-api.js';
+
+const CLI = fileURLToPath(new URL('../src/cli.ts', import.meta.url));
+const TSX = import.meta.resolve('tsx');
+
+export interface CliResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+export interface Harness {
+  fake: FakeCloudflare;
+  /** Scratch directory used as cwd, HOME and XDG state/config root */
+  dir: string;
+  /** Origin the fake is served on, for sending preview probes to it */
+  origin: string;
+  run(args: string[], env?: Record<string, string>): Promise<CliResult>;
+  close(): Promise<void>;
+}
+
+/**
+ * Upload `count` versions and deploy each in turn, so the newest is active
+ * Returns the versions newest first.
+ */
+export function seedWorker(
+  fake: FakeCloudflare,
+  scriptName: string,
+  count: number
+): Version[] {
+  for (let i = 1; i <= count; i++) {
+    const version = fake.addVersion(scriptName, {
+      tag: i === 1 ? 'release-1' : `pr-${i}`,
+      message: `change ${i}`,
+    });
+    fake.deploy(scriptName, version.id);
+  }
+  return fake.versions(scriptName);
+}
+
+/**
+ * Serve a fake API and run the CLI in a child process pointed at it
+ * Children run non-interactively with no credentials or config from the host.
+ */
+export async function startHarness(
+  fake = new FakeCloudflare()
+): Promise<Harness> {
+  const server: FakeServer = await fake.listen();
+  const dir = await mkdtemp(join(tmpdir(), 'cwc-test-'));
+
+  const run = (args: string[], env: Record<string, string> = {}) =>
+    new Promise<CliResult>((resolve, reject) => {
+      const child = spawn(
+        process.execPath,
+        ['--import', TSX, CLI, '--max-retries', '0', ...args],
+        {
+          cwd: dir,
+          env: {
+            PATH: process.env.PATH,
+            HOME: dir,
+            XDG_STATE_HOME: join(dir, 'state'),
+            XDG_CONFIG_HOME: join(dir, 'config'),
+            CI: '1',
+            NO_COLOR: '1',
+            CLOUDFLARE_API_BASE_URL: server.url,
+            CLOUDFLARE_API_TOKEN: fake.apiToken,
+            CLOUDFLARE_ACCOUNT_ID: fake.accountId,
+            ...env,
+          },
+          stdio: ['ignore', 'pipe', 'pipe'],
+        }
+      );
+      let stdout = '';
+      let stderr = '';
+      child.stdout.on('data', (chunk) => (stdout += chunk));
+      child.stderr.on('data', (chunk) => (stderr += chunk));
+      child.on('error', reject);
+      child.on('close', (code) => resolve({ code, stdout, stderr }));
+    });
+
+  return {
+    fake,
+    dir,
+    origin: new URL(server.url).origin,
+    run,
+    close: async () => {
+      await server.close();
+      await rm(dir, { recursive: true, force: true });
+    },
+  };
+}
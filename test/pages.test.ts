@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CloudflareAPI,
+  filterPagesDeployments,
+  loadPagesInventory,
+} from '../src/index.js';
+import type { PagesDeployment } from '../src/lib/cloudflare-api.js';
+import { FakeCloudflare } from '../src/testing/fake-cloudflare.js';
+import { startHarness, type Harness } from './helpers.js';
+
+/**
+ * Two production builds, two builds of feature/a and one of fix-b, oldest first
+ */
+function seedProject(fake: FakeCloudflare): PagesDeployment[] {
+  return [
+    fake.addPagesDeployment('site'),
+    fake.addPagesDeployment('site', { branch: 'feature/a' }),
+    fake.addPagesDeployment('site', { branch: 'fix-b' }),
+    fake.addPagesDeployment('site', { branch: 'feature/a' }),
+    fake.addPagesDeployment('site'),
+  ];
+}
+
+describe('Pages deployment protection', () => {
+  it('protects production and the latest deployment of each branch', async () => {
+    const fake = new FakeCloudflare();
+    const [oldMain, oldFeature, fix, feature, main] = seedProject(fake);
+    const api = new CloudflareAPI({
+      accountId: fake.accountId,
+      apiToken: fake.apiToken,
+      fetch: fake.fetch,
+    });
+
+    const { deployments, protectedDeployments } = await loadPagesInventory(
+      api,
+      'site'
+    );
+
+    assert.equal(deployments.length, 5);
+    assert.deepEqual(Object.fromEntries(protectedDeployments), {
+      [main.id]: 'PRODUCTION',
+      [feature.id]: 'latest for feature/a',
+      [fix.id]: 'latest for fix-b',
+    });
+    assert.ok(!protectedDeployments.has(oldMain.id));
+    assert.ok(!protectedDeployments.has(oldFeature.id));
+  });
+
+  it('filters by branch glob and environment', () => {
+    const fake = new FakeCloudflare();
+    const deployments = seedProject(fake);
+
+    assert.equal(
+      filterPagesDeployments(deployments, { branch: 'feature/*' }).length,
+      2
+    );
+    assert.equal(
+      filterPagesDeployments(deployments, { environment: 'production' })
+        .length,
+      2
+    );
+    assert.equal(
+      filterPagesDeployments(deployments, {
+        branch: 'fix-*',
+        environment: 'production',
+      }).length,
+      0
+    );
+  });
+});
+
+describe('pages commands', () => {
+  let harness: Harness;
+  let seeded: PagesDeployment[];
+
+  beforeEach(async () => {
+    harness = await startHarness();
+    seeded = seedProject(harness.fake);
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('lists matching deployments', async () => {
+    const { code, stdout } = await harness.run([
+      'pages',
+      'list',
+      'site',
+      '--environment',
+      'preview',
+      '--json',
+    ]);
+
+    assert.equal(code, 0);
+    assert.equal(JSON.parse(stdout).length, 3);
+  });
+
+  it('deletes every unprotected deployment with --all', async () => {
+    const [oldMain, oldFeature] = seeded;
+
+    const { code } = await harness.run(['pages', 'delete', 'site', '--all', '-y']);
+
+    assert.equal(code, 0);
+    const remaining = harness.fake.pagesDeployments('site').map((d) => d.id);
+    assert.equal(remaining.length, 3);
+    assert.ok(!remaining.includes(oldMain.id));
+    assert.ok(!remaining.includes(oldFeature.id));
+  });
+
+  it('only deletes deployments matching the filters', async () => {
+    const [oldMain] = seeded;
+
+    const { code } = await harness.run([
+      'pages',
+      'delete',
+      'site',
+      '--all',
+      '-y',
+      '--environment',
+      'production',
+    ]);
+
+    assert.equal(code, 0);
+    const remaining = harness.fake.pagesDeployments('site').map((d) => d.id);
+    assert.equal(remaining.length, 4);
+    assert.ok(!remaining.includes(oldMain.id));
+  });
+
+  it('exits 3 when every match is protected', async () => {
+    const { code } = await harness.run([
+      'pages',
+      'delete',
+      'site',
+      '--all',
+      '-y',
+      '--branch',
+      'fix-*',
+    ]);
+
+    assert.equal(code, 3);
+    assert.equal(harness.fake.pagesDeployments('site').length, 5);
+  });
+
+  it('changes nothing in a dry run and refuses to prompt', async () => {
+    const dryRun = await harness.run([
+      'pages',
+      'delete',
+      'site',
+      '--all',
+      '--dry-run',
+    ]);
+    assert.equal(dryRun.code, 0);
+    assert.match(dryRun.stdout, /DRY RUN/);
+
+    const unconfirmed = await harness.run(['pages', 'delete', 'site', '--all']);
+    assert.equal(unconfirmed.code, 2);
+
+    assert.equal(harness.fake.pagesDeployments('site').length, 5);
+  });
+
+  it('reports JSON and retries failures from the checkpoint', async () => {
+    const [oldMain, oldFeature] = seeded;
+    harness.fake.fail({
+      method: 'DELETE',
+      path: `/pages/projects/site/deployments/${oldFeature.id}`,
+      status: 500,
+    });
+
+    const first = await harness.run([
+      'pages',
+      'delete',
+      'site',
+      '--all',
+      '-y',
+      '--json',
+    ]);
+    assert.equal(first.code, 4);
+    const report = JSON.parse(first.stdout);
+    assert.equal(report.resourceType, 'pages_deployment');
+    assert.deepEqual(
+      report.deleted.map((d: { id: string }) => d.id),
+      [oldMain.id]
+    );
+    assert.deepEqual(
+      report.failed.map((d: { id: string }) => d.id),
+      [oldFeature.id]
+    );
+
+    const retry = await harness.run(['retry-failed', '-y']);
+    assert.equal(retry.code, 0);
+    assert.equal(harness.fake.pagesDeployments('site').length, 3);
+  });
+
+  it('exits 6 for a missing project', async () => {
+    const { code } = await harness.run(['pages', 'list', 'missing']);
+
+    assert.equal(code, 6);
+  });
+});
@@ -0,0 +1,291 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  CloudflareAPI,
+  createHttpProber,
+  previewUrlsFor,
+  updatePreviewSettings,
+  verifyPreviewUrls,
+} from '../src/index.js';
+import type { Version } from '../src/lib/cloudflare-api.js';
+import { FakeCloudflare } from '../src/testing/fake-cloudflare.js';
+import { seedWorker, startHarness, type Harness } from './helpers.js';
+
+describe('preview URL verification', () => {
+  it('builds version and alias URLs', () => {
+    const urls = previewUrlsFor('app', 'acme', {
+      id: '0123abcd-0000-4000-8000-000000000000',
+      annotations: { 'workers/alias': 'staging' },
+    });
+
+    assert.deepEqual(
+      urls.map((u) => u.url),
+      [
+        'https://0123abcd-app.acme.workers.dev',
+        'https://staging-app.acme.workers.dev',
+      ]
+    );
+  });
+
+  it('tells live previews from deleted ones', async () => {
+    const fake = new FakeCloudflare();
+    const [live, deleted] = seedWorker(fake, 'app', 2);
+    const api = new CloudflareAPI({
+      accountId: fake.accountId,
+      apiToken: fake.apiToken,
+      fetch: fake.fetch,
+    });
+    const urls = [live, deleted].flatMap((v) =>
+      previewUrlsFor('app', fake.workersSubdomain, v)
+    );
+    await api.deleteVersion('app', deleted.id);
+    const server = await fake.listen();
+
+    try {
+      const checks = await verifyPreviewUrls(
+        urls,
+        createHttpProber({ origin: new URL(server.url).origin })
+      );
+
+      assert.deepEqual(
+        checks.map((c) => [c.versionId, c.state, c.status]),
+        [
+          [live.id, 'responding', 200],
+          [deleted.id, 'gone', 404],
+        ]
+      );
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('reports a URL that cannot be reached as unreachable', async () => {
+    const [check] = await verifyPreviewUrls(
+      [{ versionId: 'x', kind: 'version', url: 'https://x-app.acme.workers.dev' }],
+      createHttpProber({ origin: 'http://127.0.0.1:1' })
+    );
+
+    assert.equal(check.state, 'unreachable');
+    assert.ok(check.error);
+  });
+
+  it('turns previews off only where needed and records failures', async () => {
+    const fake = new FakeCloudflare();
+    const [version] = seedWorker(fake, 'app', 1);
+    seedWorker(fake, 'api', 1);
+    const api = new CloudflareAPI({
+      accountId: fake.accountId,
+      apiToken: fake.apiToken,
+      fetch: fake.fetch,
+    });
+    await api.setScriptSubdomain('api', {
+      enabled: true,
+      previews_enabled: false,
+    });
+
+    const results = await updatePreviewSettings(
+      api,
+      ['app', 'api', 'missing'],
+      { previews_enabled: false }
+    );
+
+    assert.deepEqual(
+      results.map((r) => [r.scriptName, r.changed, Boolean(r.error)]),
+      [
+        ['app', true, false],
+        ['api', false, false],
+        ['missing', false, true],
+      ]
+    );
+    assert.deepEqual(fake.scriptSubdomain('app'), {
+      enabled: true,
+      previews_enabled: false,
+    });
+
+    const [check] = await verifyPreviewUrls(
+      previewUrlsFor('app', fake.workersSubdomain, version),
+      async (url) => ({ status: (await fake.handle(new Request(url))).status })
+    );
+    assert.equal(check.state, 'gone');
+  });
+});
+
+describe('previews commands', () => {
+  let harness: Harness;
+  let versions: Version[];
+
+  beforeEach(async () => {
+    harness = await startHarness();
+    versions = seedWorker(harness.fake, 'app', 3);
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('shows preview URLs in versions list', async () => {
+    const { code, stdout } = await harness.run([
+      'versions',
+      'list',
+      'app',
+      '--format',
+      'json',
+      '--columns',
+      'id,preview_url',
+    ]);
+
+    assert.equal(code, 0);
+    assert.deepEqual(
+      JSON.parse(stdout).map((row: { preview_url: string }) => row.preview_url),
+      versions.map((v) => `https://${v.id.slice(0, 8)}-app.fake.workers.dev`)
+    );
+  });
+
+  it('confirms the previews of deleted versions are gone', async () => {
+    const deleted = await harness.run(['versions', 'delete', 'app', '--all', '-y']);
+    assert.equal(deleted.code, 0);
+
+    const { code, stdout } = await harness.run([
+      'previews',
+      'verify',
+      'app',
+      '--probe-origin',
+      harness.origin,
+      '--json',
+    ]);
+
+    assert.equal(code, 0);
+    const report = JSON.parse(stdout);
+    assert.deepEqual(report.summary, { gone: 2, responding: 0, unreachable: 0 });
+  });
+
+  it('exits 4 when a preview still responds', async () => {
+    const { code, stdout } = await harness.run([
+      'previews',
+      'verify',
+      'app',
+      '--version-id',
+      versions[1].id,
+      '--probe-origin',
+      harness.origin,
+    ]);
+
+    assert.equal(code, 4);
+    assert.match(stdout, /still responding \(200\)/);
+  });
+
+  it('exits 3 when nothing has been deleted', async () => {
+    const { code } = await harness.run(['previews', 'verify', 'app']);
+
+    assert.equal(code, 3);
+  });
+
+  it('disables previews so preview URLs stop responding', async () => {
+    const { code } = await harness.run(['previews', 'disable', 'app', '-y']);
+
+    assert.equal(code, 0);
+    assert.deepEqual(harness.fake.scriptSubdomain('app'), {
+      enabled: true,
+      previews_enabled: false,
+    });
+
+    const verify = await harness.run([
+      'previews',
+      'verify',
+      'app',
+      '--version-id',
+      versions[0].id,
+      '--probe-origin',
+      harness.origin,
+    ]);
+    assert.equal(verify.code, 0);
+  });
+
+  it('exits 3 when previews are already in the requested state', async () => {
+    const { code } = await harness.run(['previews', 'enable', 'app', '-y']);
+
+    assert.equal(code, 3);
+  });
+
+  it('changes nothing in a dry run and refuses to prompt', async () => {
+    const dryRun = await harness.run([
+      'previews',
+      'disable',
+      'app',
+      '--workers-dev',
+      '--dry-run',
+    ]);
+    assert.equal(dryRun.code, 0);
+    assert.match(dryRun.stdout, /on → off/);
+
+    const unconfirmed = await harness.run(['previews', 'disable', 'app']);
+    assert.equal(unconfirmed.code, 2);
+
+    assert.deepEqual(harness.fake.scriptSubdomain('app'), {
+      enabled: true,
+      previews_enabled: true,
+    });
+  });
+
+  it('disables previews across every script with --all-scripts', async () => {
+    seedWorker(harness.fake, 'api', 1);
+    seedWorker(harness.fake, 'docs', 1);
+
+    const { code, stdout } = await harness.run([
+      'previews',
+      'disable',
+      '--all-scripts',
+      '--exclude',
+      'docs',
+      '--workers-dev',
+      '-y',
+      '--json',
+    ]);
+
+    assert.equal(code, 0);
+    assert.deepEqual(JSON.parse(stdout).summary, {
+      changed: 2,
+      unchanged: 0,
+      failed: 0,
+    });
+
+    const status = await harness.run([
+      'previews',
+      'status',
+      '--all-scripts',
+      '--json',
+    ]);
+    assert.equal(status.code, 0);
+    assert.deepEqual(JSON.parse(status.stdout), [
+      { scriptName: 'app', enabled: false, previews_enabled: false },
+      { scriptName: 'api', enabled: false, previews_enabled: false },
+      { scriptName: 'docs', enabled: true, previews_enabled: true },
+    ]);
+  });
+
+  it('reads the script and account from the wrangler config', async () => {
+    await writeFile(
+      join(harness.dir, 'wrangler.toml'),
+      `name = "app"\naccount_id = "${harness.fake.accountId}"\n`
+    );
+    const env = { CLOUDFLARE_ACCOUNT_ID: '' };
+
+    const status = await harness.run(['previews', 'status', '--json'], env);
+    assert.equal(status.code, 0);
+    assert.deepEqual(JSON.parse(status.stdout), [
+      { scriptName: 'app', enabled: true, previews_enabled: true },
+    ]);
+
+    const { code } = await harness.run(['previews', 'disable', '-y'], env);
+    assert.equal(code, 0);
+    assert.equal(harness.fake.scriptSubdomain('app')?.previews_enabled, false);
+  });
+
+  it('exits 6 for a missing script', async () => {
+    const { code } = await harness.run(['previews', 'status', 'missing']);
+
+    assert.equal(code, 6);
+  });
+});